@@ -2,25 +2,55 @@
 import http from 'http';
 import { Server, Socket } from 'socket.io';
 import cors from 'cors';
+import mongoose from 'mongoose';
+import { timingSafeEqual } from 'crypto';
 import 'dotenv/config';
 import { connectDB } from './lib/db.js';
-import { Room } from './models/Room.js';
-import { WORDS, getRandomWordByDifficulty } from './lib/words.js';
-import { validateMessage, containsProfanity } from './lib/profanityFilter.js';
+import { Room, type ChatChannel, type Stroke } from './models/Room.js';
+import { PlayerProfile } from './models/PlayerProfile.js';
+import { Match, type TurnRecord } from './models/Match.js';
+import { DrawingRecord, type DrawingEvent, type DrawingEventType } from './models/DrawingRecord.js';
+import { Report, REPORT_REASONS, type ReportReason } from './models/Report.js';
+import { ModerationLog, MODERATION_LOG_TYPES, type ModerationLogType } from './models/ModerationLog.js';
+import { Ban } from './models/Ban.js';
+import { WordPack, type WordPackWord } from './models/WordPack.js';
+import { pickWord, displayWord, getAcceptedAnswers, isSupportedLanguage, CATEGORY_NAMES, DEFAULT_LANGUAGE, type WordCategory, type WordDifficulty } from './lib/words.js';
+import { moderateMessage, moderateName, isModerationLevel } from './lib/profanityFilter.js';
+import { hashPassword, verifyPassword, generateInviteToken } from './lib/roomAccess.js';
+import { recordTurnStats, recordGameStats, toPublicProfile, issuePlayerId, verifyPlayerToken } from './lib/playerStats.js';
+import { recordLeaderboardResults, getTopEntries, getPlayerRank, isLeaderboardPeriod } from './lib/leaderboard.js';
+import { buildTurnRecord, recordMatch, toMatchSummary, toMatchDetail } from './lib/matchHistory.js';
+import { normalizeStrokes } from './lib/strokes.js';
+import { renderStrokesToSvg } from './lib/svgRenderer.js';
+import { normalizeGuess, isCloseGuess, isCorrectGuess, revealsWord } from './lib/guessCheck.js';
+import { createCanvasState, applyCanvasOp, getCanvasSync, applyDrawingEvent, finalStrokesFromEvents, type CanvasState, type CanvasOpType } from './lib/canvasLog.js';
+import { logModeration, findActiveBan, recentChatOf } from './lib/moderation.js';
+import { insertLateJoiner } from './lib/drawOrder.js';
+import { parsePackWords, parseCsvWords, parseJsonImport, cleanPackWords, cleanPackName, WORD_PACK_MAX_WORDS } from './lib/wordPacks.js';
+import { rollDifficulty, recordGuessRate, adaptiveWeights, presetWeights, normalizeWeights, isDifficultyPreset, DEFAULT_DIFFICULTY_PRESET } from './lib/difficulty.js';
 
 interface Player {
   id: string;
   sessionId: string;       // Persistent session ID
+  playerId?: string;       // Long-lived player ID for profiles
   name: string;
   score: number;
   isDrawer?: boolean;
   avatar?: number[]; // [colorIdx, eyeIdx, mouthIdx, accessoryIdx]
   isConnected: boolean;    // Connection status
   lastSeen: Date;          // Last activity timestamp
+  joinedAt?: Date;         // When the player first joined
+  isSpectator?: boolean;   // Watches only, never draws or guesses
+  team?: number;           // Team index in team mode
 }
 
+// Reverse proxies in front of the server; X-Forwarded-For entries beyond them are client-supplied
+const TRUST_PROXY_HOPS = Math.max(0, Math.floor(Number(process.env.TRUST_PROXY_HOPS) || 0));
+
 const app = express();
+app.set('trust proxy', TRUST_PROXY_HOPS);
 app.use(cors());
+app.use(express.json());
 
 // Health check endpoint for monitoring
 app.get('/health', async (req, res) => {
@@ -43,6 +73,10 @@ app.get('/health', async (req, res) => {
         total: roomCount,
         active: activeRooms
       },
+      forgedEvents: {
+        total: [...forgedEventTotals.values()].reduce((sum, n) => sum + n, 0),
+        byEvent: Object.fromEntries(forgedEventTotals)
+      },
       memory: {
         used: Math.round(process.memoryUsage().heapUsed / 1024 / 1024) + 'MB',
         total: Math.round(process.memoryUsage().heapTotal / 1024 / 1024) + 'MB'
@@ -57,6 +91,541 @@ app.get('/health', async (req, res) => {
   }
 });
 
+// Public room browser
+app.get('/rooms', async (req, res) => {
+  try {
+    const language = typeof req.query.language === 'string' ? req.query.language : undefined;
+    const rooms = await Room.find({
+      isPublic: true,
+      players: { $elemMatch: { isConnected: true, isSpectator: { $ne: true } } },
+      ...(language ? { language } : {}),
+    })
+      .sort({ lastActivity: -1 })
+      .limit(PUBLIC_ROOM_LIST_LIMIT)
+      .lean();
+
+    res.status(200).json({
+      rooms: rooms.map(room => ({
+        roomId: room.roomId,
+        playerCount: getConnectedPlayerCount(room),
+        maxPlayers: room.maxPlayers,
+        round: room.round,
+        maxRounds: room.maxRounds,
+        language: room.language,
+        gameStarted: room.gameStarted,
+        hasPassword: !!room.passwordHash,
+      })),
+    });
+  } catch (error) {
+    res.status(500).json({ status: 'error', message: 'Failed to list rooms' });
+  }
+});
+
+// Player profile and lifetime stats
+app.get('/players/:playerId/profile', async (req, res) => {
+  try {
+    const profile = await PlayerProfile.findOne({ playerId: req.params.playerId });
+    if (!profile) {
+      res.status(404).json({ status: 'error', message: 'Profile not found' });
+      return;
+    }
+
+    res.status(200).json(toPublicProfile(profile));
+  } catch (error) {
+    res.status(500).json({ status: 'error', message: 'Failed to load profile' });
+  }
+});
+
+// Match history: a player's recent matches, and one match in full
+app.get('/players/:playerId/matches', async (req, res) => {
+  try {
+    const { playerId } = req.params;
+    const limit = Math.max(1, Math.min(MATCH_LIST_MAX_LIMIT, Number(req.query.limit) || MATCH_LIST_DEFAULT_LIMIT));
+    const matches = await Match.find({ playerIds: playerId })
+      .sort({ endedAt: -1 })
+      .limit(limit);
+
+    res.status(200).json({
+      playerId,
+      matches: matches.map(match => toMatchSummary(match, playerId)),
+    });
+  } catch (error) {
+    res.status(500).json({ status: 'error', message: 'Failed to load matches' });
+  }
+});
+
+app.get('/matches/:matchId', async (req, res) => {
+  try {
+    const { matchId } = req.params;
+    if (!mongoose.isValidObjectId(matchId)) {
+      res.status(404).json({ status: 'error', message: 'Match not found' });
+      return;
+    }
+
+    const match = await Match.findById(matchId).lean();
+    if (!match) {
+      res.status(404).json({ status: 'error', message: 'Match not found' });
+      return;
+    }
+
+    res.status(200).json(toMatchDetail(match));
+  } catch (error) {
+    res.status(500).json({ status: 'error', message: 'Failed to load match' });
+  }
+});
+
+// Stroke timeline of a finished turn, for client-side timelapses
+app.get('/turns/:turnId/strokes', async (req, res) => {
+  try {
+    const record = await DrawingRecord.findOne({ turnId: req.params.turnId }).lean();
+    if (!record) {
+      res.status(404).json({ status: 'error', message: 'Turn not found' });
+      return;
+    }
+
+    res.status(200).json({
+      turnId: record.turnId,
+      roomId: record.roomId,
+      round: record.round,
+      drawerName: record.drawerName,
+      word: record.word,
+      startedAt: record.startedAt,
+      durationMs: record.durationMs,
+      truncated: record.truncated,
+      events: record.events,
+    });
+  } catch (error) {
+    res.status(500).json({ status: 'error', message: 'Failed to load strokes' });
+  }
+});
+
+// Rendering is CPU-bound and the endpoints are public: limit per IP
+function limitSvgRenders(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (!checkRateLimit(req.ip ?? '', svgRateLimit, SVG_RATE_LIMIT, SVG_RATE_WINDOW)) {
+    res.status(429).json({ status: 'error', message: 'Too many drawing exports, please wait a moment' });
+    return;
+  }
+  next();
+}
+
+// Rendered SVG by canvas version; the oldest entry goes first when full
+function cachedSvg(key: string, render: () => string): string {
+  const cached = svgCache.get(key);
+  if (cached !== undefined) return cached;
+
+  const svg = render();
+  svgCache.set(key, svg);
+  if (svgCache.size > SVG_CACHE_MAX) {
+    svgCache.delete(svgCache.keys().next().value!);
+  }
+  return svg;
+}
+
+// Drawings as downloadable SVG: a room's current canvas, or a finished turn's final canvas
+app.get('/rooms/:roomId/drawing.svg', limitSvgRenders, async (req, res) => {
+  try {
+    const room = await Room.findOne({ roomId: req.params.roomId }).lean();
+    if (!room) {
+      res.status(404).json({ status: 'error', message: 'Room not found' });
+      return;
+    }
+
+    // The live canvas is ahead of the debounced save. Sequence numbers
+    // restart every turn, so the turn id is part of the cache key.
+    const live = canvasStates.get(room.roomId);
+    const key = `room:${room.roomId}:${room.currentTurnId ?? ''}:${live?.seq ?? room.canvasSeq ?? 0}`;
+    const svg = cachedSvg(key, () => renderStrokesToSvg(live?.strokes ?? normalizeStrokes(room.currentDrawing) ?? []));
+    res.type('image/svg+xml').send(svg);
+  } catch (error) {
+    res.status(500).json({ status: 'error', message: 'Failed to render drawing' });
+  }
+});
+
+app.get('/turns/:turnId/drawing.svg', limitSvgRenders, async (req, res) => {
+  try {
+    const record = await DrawingRecord.findOne({ turnId: req.params.turnId }).lean();
+    if (!record) {
+      res.status(404).json({ status: 'error', message: 'Turn not found' });
+      return;
+    }
+
+    // A finished turn never changes
+    const svg = cachedSvg(`turn:${record.turnId}`, () => renderStrokesToSvg(finalStrokesFromEvents(record.events)));
+    res.type('image/svg+xml').send(svg);
+  } catch (error) {
+    res.status(500).json({ status: 'error', message: 'Failed to render drawing' });
+  }
+});
+
+// Leaderboards: top N for the current day, week or all time
+app.get('/leaderboard/:period', async (req, res) => {
+  try {
+    const { period } = req.params;
+    if (!isLeaderboardPeriod(period)) {
+      res.status(400).json({ status: 'error', message: 'Period must be daily, weekly or alltime' });
+      return;
+    }
+
+    const limit = Math.max(1, Math.min(LEADERBOARD_MAX_LIMIT, Number(req.query.limit) || LEADERBOARD_DEFAULT_LIMIT));
+    const entries = await getTopEntries(period, limit);
+
+    res.status(200).json({
+      period,
+      entries: entries.map((entry, idx) => ({
+        rank: idx + 1,
+        playerId: entry.playerId,
+        name: entry.name,
+        rating: entry.rating,
+        gamesPlayed: entry.gamesPlayed,
+        wins: entry.wins,
+      })),
+    });
+  } catch (error) {
+    res.status(500).json({ status: 'error', message: 'Failed to load leaderboard' });
+  }
+});
+
+app.get('/leaderboard/:period/players/:playerId', async (req, res) => {
+  try {
+    const { period, playerId } = req.params;
+    if (!isLeaderboardPeriod(period)) {
+      res.status(400).json({ status: 'error', message: 'Period must be daily, weekly or alltime' });
+      return;
+    }
+
+    const result = await getPlayerRank(period, playerId);
+    if (!result) {
+      res.status(404).json({ status: 'error', message: 'Player not ranked' });
+      return;
+    }
+
+    res.status(200).json({
+      period,
+      rank: result.rank,
+      playerId: result.entry.playerId,
+      name: result.entry.name,
+      rating: result.entry.rating,
+      gamesPlayed: result.entry.gamesPlayed,
+      wins: result.entry.wins,
+    });
+  } catch (error) {
+    res.status(500).json({ status: 'error', message: 'Failed to load rank' });
+  }
+});
+
+// ---------------------------------------------------------------------
+// WORD PACKS: shareable custom word lists that rooms attach by id
+// ---------------------------------------------------------------------
+// The owner's session id stays private: it also resumes the owner's seat in rooms
+function toWordPackSummary(pack: { _id: unknown; name: string; language: string; words: WordPackWord[]; createdAt: Date }) {
+  return {
+    packId: String(pack._id),
+    name: pack.name,
+    language: pack.language,
+    wordCount: pack.words.length,
+    createdAt: pack.createdAt,
+  };
+}
+
+// Validate and store a pack; answers the request either way
+async function createWordPack(res: express.Response, input: { name: unknown; sessionId: unknown; language: unknown; words: unknown }) {
+  if (typeof input.sessionId !== 'string' || !input.sessionId) {
+    res.status(400).json({ status: 'error', message: 'sessionId is required' });
+    return;
+  }
+  const language = input.language ?? DEFAULT_LANGUAGE;
+  if (!isSupportedLanguage(language)) {
+    res.status(400).json({ status: 'error', message: 'Unsupported language' });
+    return;
+  }
+  const name = cleanPackName(input.name, language);
+  if (!name) {
+    res.status(400).json({ status: 'error', message: 'Name is missing, too long or not allowed' });
+    return;
+  }
+  const parsed = parsePackWords(input.words);
+  if (!parsed) {
+    res.status(400).json({ status: 'error', message: 'Words must be a list' });
+    return;
+  }
+
+  const { words, rejected } = cleanPackWords(parsed, language);
+  if (rejected.length > 0) {
+    logModeration({
+      type: 'filter',
+      sessionId: input.sessionId,
+      action: 'block',
+      text: rejected.join(', '),
+      detail: `word pack "${name}"`,
+    });
+    res.status(400).json({ status: 'error', message: 'Some words are not allowed', rejected });
+    return;
+  }
+  if (words.length === 0 || words.length > WORD_PACK_MAX_WORDS) {
+    res.status(400).json({ status: 'error', message: `A word pack needs 1 to ${WORD_PACK_MAX_WORDS} words` });
+    return;
+  }
+
+  const pack = await WordPack.create({ name, ownerSessionId: input.sessionId, language, words });
+  res.status(201).json({ pack: { ...toWordPackSummary(pack), words: pack.words } });
+}
+
+app.get('/word-packs', async (req, res) => {
+  try {
+    const { language, owner } = req.query;
+    const limit = Math.max(1, Math.min(WORD_PACK_LIST_MAX_LIMIT, Number(req.query.limit) || WORD_PACK_LIST_DEFAULT_LIMIT));
+    const packs = await WordPack.find({
+      ...(typeof language === 'string' ? { language } : {}),
+      ...(typeof owner === 'string' ? { ownerSessionId: owner } : {}),
+    })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .lean();
+
+    res.status(200).json({ packs: packs.map(toWordPackSummary) });
+  } catch (error) {
+    res.status(500).json({ status: 'error', message: 'Failed to list word packs' });
+  }
+});
+
+app.get('/word-packs/:packId', async (req, res) => {
+  try {
+    const { packId } = req.params;
+    const pack = mongoose.isValidObjectId(packId) ? await WordPack.findById(packId).lean() : null;
+    if (!pack) {
+      res.status(404).json({ status: 'error', message: 'Word pack not found' });
+      return;
+    }
+
+    res.status(200).json({ pack: { ...toWordPackSummary(pack), words: pack.words } });
+  } catch (error) {
+    res.status(500).json({ status: 'error', message: 'Failed to load word pack' });
+  }
+});
+
+// Body: { name, sessionId, language, words }, words as strings or { word, difficulty }
+app.post('/word-packs', async (req, res) => {
+  try {
+    const { name, sessionId, language, words } = req.body ?? {};
+    await createWordPack(res, { name, sessionId, language, words });
+  } catch (error) {
+    res.status(500).json({ status: 'error', message: 'Failed to create word pack' });
+  }
+});
+
+// Body: { format: 'json' | 'csv', data, name, sessionId, language }. JSON data may
+// carry its own name and language (an exported pack); the body's values win.
+app.post('/word-packs/import', async (req, res) => {
+  try {
+    const { format, data, name, sessionId, language } = req.body ?? {};
+    if (typeof data !== 'string') {
+      res.status(400).json({ status: 'error', message: 'data must be the file contents as a string' });
+      return;
+    }
+
+    if (format === 'csv') {
+      await createWordPack(res, { name, sessionId, language, words: parseCsvWords(data) });
+    } else if (format === 'json') {
+      const imported = parseJsonImport(data);
+      if (!imported) {
+        res.status(400).json({ status: 'error', message: 'data is not a word list or word pack' });
+        return;
+      }
+      await createWordPack(res, {
+        name: name ?? imported.name,
+        sessionId,
+        language: language ?? imported.language,
+        words: imported.words,
+      });
+    } else {
+      res.status(400).json({ status: 'error', message: 'Format must be json or csv' });
+    }
+  } catch (error) {
+    res.status(500).json({ status: 'error', message: 'Failed to import word pack' });
+  }
+});
+
+// ---------------------------------------------------------------------
+// ADMIN: reports, audit log and bans (Authorization: Bearer ADMIN_TOKEN)
+// ---------------------------------------------------------------------
+function requireAdmin(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    res.status(503).json({ status: 'error', message: 'Admin API is not configured' });
+    return;
+  }
+
+  const given = Buffer.from(req.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '');
+  const expected = Buffer.from(token);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    res.status(401).json({ status: 'error', message: 'Unauthorized' });
+    return;
+  }
+  next();
+}
+
+app.use('/admin', requireAdmin);
+
+function adminListLimit(value: unknown): number {
+  return Math.max(1, Math.min(ADMIN_LIST_MAX_LIMIT, Number(value) || ADMIN_LIST_DEFAULT_LIMIT));
+}
+
+app.get('/admin/reports', async (req, res) => {
+  try {
+    const status = typeof req.query.status === 'string' ? req.query.status : 'open';
+    const reports = await Report.find(status === 'all' ? {} : { status })
+      .sort({ createdAt: -1 })
+      .limit(adminListLimit(req.query.limit))
+      .select('-chat -drawing')
+      .lean();
+
+    res.status(200).json({ reports });
+  } catch (error) {
+    res.status(500).json({ status: 'error', message: 'Failed to load reports' });
+  }
+});
+
+// One report in full, with the reported player's moderation history
+app.get('/admin/reports/:reportId', async (req, res) => {
+  try {
+    const { reportId } = req.params;
+    const report = mongoose.isValidObjectId(reportId) ? await Report.findById(reportId).lean() : null;
+    if (!report) {
+      res.status(404).json({ status: 'error', message: 'Report not found' });
+      return;
+    }
+
+    const [history, reportCount] = await Promise.all([
+      ModerationLog.find({ sessionId: report.reportedSessionId })
+        .sort({ createdAt: -1 })
+        .limit(ADMIN_LIST_DEFAULT_LIMIT)
+        .lean(),
+      Report.countDocuments({ reportedSessionId: report.reportedSessionId }),
+    ]);
+
+    res.status(200).json({ report, history, reportCount });
+  } catch (error) {
+    res.status(500).json({ status: 'error', message: 'Failed to load report' });
+  }
+});
+
+app.post('/admin/reports/:reportId/resolve', async (req, res) => {
+  try {
+    const { reportId } = req.params;
+    const { status = 'resolved', note, ban, banMinutes } = req.body ?? {};
+    if (status !== 'resolved' && status !== 'dismissed') {
+      res.status(400).json({ status: 'error', message: 'Status must be resolved or dismissed' });
+      return;
+    }
+    if (ban !== undefined && ban !== 'session' && ban !== 'ip') {
+      res.status(400).json({ status: 'error', message: 'Ban must be session or ip' });
+      return;
+    }
+
+    const report = mongoose.isValidObjectId(reportId) ? await Report.findById(reportId) : null;
+    if (!report) {
+      res.status(404).json({ status: 'error', message: 'Report not found' });
+      return;
+    }
+    if (ban === 'ip' && !report.reportedIp) {
+      res.status(400).json({ status: 'error', message: 'No IP address was captured for this report' });
+      return;
+    }
+
+    report.status = status;
+    report.resolutionNote = typeof note === 'string' ? note.slice(0, REPORT_DETAILS_MAX) : '';
+    report.resolvedAt = new Date();
+    await report.save();
+
+    const banned = ban
+      ? await applyBan({
+          ...(ban === 'ip' ? { ip: report.reportedIp } : { sessionId: report.reportedSessionId }),
+          reason: `Report ${report.id}: ${report.reason}`,
+          reportId: report.id,
+          minutes: banMinutes,
+        })
+      : null;
+
+    res.status(200).json({ report, ban: banned });
+  } catch (error) {
+    res.status(500).json({ status: 'error', message: 'Failed to resolve report' });
+  }
+});
+
+app.get('/admin/audit', async (req, res) => {
+  try {
+    const { type, roomId, sessionId } = req.query;
+    if (type !== undefined && !MODERATION_LOG_TYPES.includes(type as ModerationLogType)) {
+      res.status(400).json({ status: 'error', message: `Type must be one of ${MODERATION_LOG_TYPES.join(', ')}` });
+      return;
+    }
+
+    const entries = await ModerationLog.find({
+      ...(typeof type === 'string' ? { type } : {}),
+      ...(typeof roomId === 'string' ? { roomId } : {}),
+      ...(typeof sessionId === 'string' ? { sessionId } : {}),
+    })
+      .sort({ createdAt: -1 })
+      .limit(adminListLimit(req.query.limit))
+      .lean();
+
+    res.status(200).json({ entries });
+  } catch (error) {
+    res.status(500).json({ status: 'error', message: 'Failed to load audit log' });
+  }
+});
+
+app.get('/admin/bans', async (req, res) => {
+  try {
+    const bans = await Ban.find().sort({ createdAt: -1 }).limit(adminListLimit(req.query.limit)).lean();
+    res.status(200).json({ bans });
+  } catch (error) {
+    res.status(500).json({ status: 'error', message: 'Failed to load bans' });
+  }
+});
+
+app.post('/admin/bans', async (req, res) => {
+  try {
+    const { sessionId, ip, reason, minutes } = req.body ?? {};
+    const hasSession = typeof sessionId === 'string' && sessionId.length > 0;
+    const hasIp = typeof ip === 'string' && ip.length > 0;
+    if (hasSession === hasIp) {
+      res.status(400).json({ status: 'error', message: 'Provide either a sessionId or an ip' });
+      return;
+    }
+
+    const ban = await applyBan({
+      ...(hasSession ? { sessionId } : { ip }),
+      reason: typeof reason === 'string' ? reason.slice(0, REPORT_DETAILS_MAX) : '',
+      minutes,
+    });
+    res.status(201).json({ ban });
+  } catch (error) {
+    res.status(500).json({ status: 'error', message: 'Failed to create ban' });
+  }
+});
+
+app.delete('/admin/bans/:banId', async (req, res) => {
+  try {
+    const { banId } = req.params;
+    const ban = mongoose.isValidObjectId(banId) ? await Ban.findByIdAndDelete(banId).lean() : null;
+    if (!ban) {
+      res.status(404).json({ status: 'error', message: 'Ban not found' });
+      return;
+    }
+
+    logModeration({
+      type: 'unban',
+      actor: 'admin',
+      ...(ban.sessionId ? { sessionId: ban.sessionId } : {}),
+      detail: ban.ip ? `ip ${ban.ip}` : 'session',
+    });
+    res.status(200).json({ status: 'ok' });
+  } catch (error) {
+    res.status(500).json({ status: 'error', message: 'Failed to remove ban' });
+  }
+});
+
 const server = http.createServer(app);
 const io = new Server(server, {
   cors: { 
@@ -104,6 +673,35 @@ function generateSessionId() {
   return 'session_' + Math.random().toString(36).substring(2, 15) + Date.now().toString(36);
 }
 
+function generateTurnId() {
+  return 'turn_' + Math.random().toString(36).substring(2, 15) + Date.now().toString(36);
+}
+
+// Keep a returning player's id only when they hold its token; anyone else gets
+// a new id, with the token returned once in roomCreated/roomJoined
+async function resolvePlayerId(player: JoiningPlayer): Promise<{ playerId: string; playerToken?: string }> {
+  if (await verifyPlayerToken(player.playerId, player.playerToken)) return { playerId: player.playerId! };
+  return issuePlayerId(player.name);
+}
+
+// Player list for clients: every field but the long-lived profile id,
+// which stays with the server
+function publicPlayers(players: Player[]): Omit<Player, 'playerId'>[] {
+  return players.map(p => ({
+    id: p.id,
+    sessionId: p.sessionId,
+    name: p.name,
+    score: p.score,
+    isConnected: p.isConnected,
+    lastSeen: p.lastSeen,
+    ...(p.isDrawer !== undefined ? { isDrawer: p.isDrawer } : {}),
+    ...(p.avatar ? { avatar: [...p.avatar] } : {}),
+    ...(p.joinedAt ? { joinedAt: p.joinedAt } : {}),
+    ...(p.isSpectator !== undefined ? { isSpectator: p.isSpectator } : {}),
+    ...(p.team !== undefined ? { team: p.team } : {}),
+  }));
+}
+
 // Rate limiting helper
 function checkRateLimit(
   socketId: string, 
@@ -167,8 +765,14 @@ async function cleanupInactiveRooms() {
           clearTimeout(timeout);
           wordSelectionTimeouts.delete(room.roomId);
         }
+        offeredWords.delete(room.roomId);
         
         endTurnInProgress.delete(room.roomId);
+        cancelHostMigration(room.roomId);
+        voteKicks.delete(room.roomId);
+        turnRecordings.delete(room.roomId);
+        dropCanvas(room.roomId);
+        clearModeration(room.roomId);
         
         // Delete the room
         await Room.deleteOne({ roomId: room.roomId });
@@ -189,80 +793,152 @@ const DRAWER_BONUS_PER_GUESSER = 50;
 // Track per-room ticking intervals
 const roomIntervals = new Map<string, NodeJS.Timeout>();
 const wordSelectionTimeouts = new Map<string, NodeJS.Timeout>();
+const offeredWords = new Map<string, string[]>(); // roomId -> words the drawer may pick from
 const endTurnInProgress = new Map<string, boolean>();
+const hostMigrationTimeouts = new Map<string, NodeJS.Timeout>();
+const disconnectTimeouts = new Map<string, NodeJS.Timeout>(); // `${roomId}:${sessionId}` -> removal timer
+
+// Drawing events of the turn being drawn, flushed to DrawingRecord at turn end
+const turnRecordings = new Map<string, { turnId: string; startedAt: number; events: DrawingEvent[]; truncated: boolean }>();
+// Live canvas per room (sequenced op log) and its pending debounced save
+const canvasStates = new Map<string, CanvasState>();
+const canvasSaveTimeouts = new Map<string, NodeJS.Timeout>();
+const canvasResyncRequests = new Map<string, number>(); // roomId -> seq already asked of the drawer
+const canvasDrawers = new Map<string, string>(); // roomId -> socket id allowed to draw this turn
+// Rendered drawing exports, keyed by room canvas version or turn id
+const svgCache = new Map<string, string>();
+// Running replays per socket
+const activeReplays = new Map<string, NodeJS.Timeout>();
+
+// Open vote-kicks per room: targetSessionId -> voters
+const voteKicks = new Map<string, Map<string, { voters: Set<string>; expiresAt: number }>>();
+
+// Events rejected because the caller lacks the membership or role they need
+const forgedEventCounts = new Map<string, number>(); // socketId -> count
+const forgedEventTotals = new Map<string, number>(); // event name -> count
+
+// Chat moderation: blocked-message strikes and active mutes, keyed `${roomId}:${sessionId}`
+const moderationStrikes = new Map<string, { count: number; resetTime: number }>();
+const chatMutes = new Map<string, number>(); // -> muted until (ms)
+const reportCooldowns = new Map<string, number>(); // `${roomId}:${reporter}:${target}` -> last report (ms)
 
 // Rate limiting maps
 const chatRateLimit = new Map<string, { count: number; resetTime: number }>();
+const joinRateLimit = new Map<string, { count: number; resetTime: number }>(); // keyed `${ip}:${roomId}`
+const svgRateLimit = new Map<string, { count: number; resetTime: number }>(); // keyed by IP
 
 // Rate limiting constants
 const CHAT_RATE_LIMIT = 10; // Max 10 messages per minute
 const CHAT_RATE_WINDOW = 60000; // 1 minute
+const JOIN_RATE_LIMIT = 5; // Max 5 password/invite attempts per minute, IP and room
+const JOIN_RATE_WINDOW = 60000; // 1 minute
+const SVG_RATE_LIMIT = 20; // Max 20 drawing exports per minute and IP
+const SVG_RATE_WINDOW = 60000; // 1 minute
+
+// Invite token constants
+const INVITE_DEFAULT_MINUTES = 60;
+const INVITE_MAX_MINUTES = 24 * 60;
+const INVITE_DEFAULT_USES = 10;
+const INVITE_MAX_USES = 100;
 
 // Room cleanup constants
 const ROOM_CLEANUP_INTERVAL = 5 * 60 * 1000; // Check every 5 minutes
 const ROOM_EXPIRY_TIME = 30 * 60 * 1000; // 30 minutes of inactivity
 const EMPTY_ROOM_EXPIRY = 5 * 60 * 1000; // 5 minutes for empty rooms
 
+// SVG export constants
+const SVG_CACHE_MAX = 100; // Rendered drawings kept in memory
+
+// Drawing replay constants
+const MAX_RECORDED_EVENTS = 5000; // Per turn
+const REPLAY_MAX_SPEED = 8;
+
+// Moderation constants
+const STRIKE_LIMIT = 3; // Blocked messages before an auto-mute
+const STRIKE_WINDOW = 10 * 60 * 1000; // 10 minutes
+const MUTE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+// Report and admin constants
+const REPORT_COOLDOWN_MS = 5 * 60 * 1000; // One report per reporter and target every 5 minutes
+const REPORT_DETAILS_MAX = 500;
+const ADMIN_LIST_DEFAULT_LIMIT = 50;
+const ADMIN_LIST_MAX_LIMIT = 200;
+
+// Forged event constants
+const FORGED_EVENT_LIMIT = 20; // Disconnect a socket after this many forged events
+
+// Canvas sync constants
+const CANVAS_SAVE_DELAY_MS = 2000; // Debounce canvas writes to MongoDB
+
+// Spectator constants
+const MAX_SPECTATORS = 20;
+
+// Room browser constants
+const PUBLIC_ROOM_LIST_LIMIT = 50;
+
+// Match history constants
+const MATCH_LIST_DEFAULT_LIMIT = 10;
+const MATCH_LIST_MAX_LIMIT = 50;
+
+// Leaderboard constants
+const LEADERBOARD_DEFAULT_LIMIT = 10;
+const LEADERBOARD_MAX_LIMIT = 100;
+
+// Word selection constants
+const MAX_USED_WORDS = 500; // Offered/played words a room remembers to avoid repeats
+
+// Word pack constants
+const WORD_PACK_MAX_ATTACHED = 5;
+const WORD_PACK_LIST_DEFAULT_LIMIT = 20;
+const WORD_PACK_LIST_MAX_LIMIT = 100;
+
+// Host migration constants
+const HOST_MIGRATION_GRACE_MS = 30 * 1000; // Wait 30s for the host to reconnect
+
+// Vote-kick constants
+const VOTE_KICK_MIN_PLAYERS = 3; // Connected players needed before a vote can pass
+const VOTE_KICK_WINDOW_MS = 60 * 1000; // Votes expire after 1 minute
+
+// Players offline longer than this are removed from the room
+const DISCONNECTED_PLAYER_TIMEOUT = 2 * 60 * 1000; // 2 minutes
+
+// Hints work on user-perceived characters: a letter with its accents or
+// vowel signs, or an emoji, is one slot. Revealed indices count these.
+const graphemeSegmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+function splitGraphemes(word: string): string[] {
+  return [...graphemeSegmenter.segment(word)].map(s => s.segment);
+}
+
+// Spaces and hyphens of phrases stay visible in the hint
+function isHiddenChar(char: string): boolean {
+  return /[\p{L}\p{N}]/u.test(char);
+}
+
 function maskWord(word: string, revealedIndices: number[] = []) {
-  return word
-    .split('')
-    .map((char, idx) => (revealedIndices.includes(idx) ? char : '_'))
+  return splitGraphemes(word)
+    .map((char, idx) => (revealedIndices.includes(idx) || !isHiddenChar(char) ? char : '_'))
     .join(' ');
 }
 
 // Get random indices to reveal (avoiding already revealed ones)
 function getRevealIndices(word: string, count: number, alreadyRevealed: number[] = []): number[] {
-  const availableIndices = Array.from({ length: word.length }, (_, i) => i)
-    .filter(i => !alreadyRevealed.includes(i));
+  const chars = splitGraphemes(word);
+  const availableIndices = Array.from({ length: chars.length }, (_, i) => i)
+    .filter(i => !alreadyRevealed.includes(i) && isHiddenChar(chars[i]!));
   
   const shuffled = availableIndices.sort(() => Math.random() - 0.5);
   return shuffled.slice(0, Math.min(count, shuffled.length));
 }
 
-// Calculate Levenshtein Distance (Edit Distance)
-function getEditDistance(str1: string, str2: string): number {
-  const len1 = str1.length;
-  const len2 = str2.length;
-  const matrix: number[][] = [];
-
-  // Initialize matrix
-  for (let i = 0; i <= len1; i++) {
-    matrix[i] = [i];
-  }
-  for (let j = 0; j <= len2; j++) {
-    if (matrix[0]) {
-      matrix[0][j] = j;
-    }
-  }
-
-  // Fill matrix
-  for (let i = 1; i <= len1; i++) {
-    for (let j = 1; j <= len2; j++) {
-      if (str1[i - 1] === str2[j - 1]) {
-        const prevVal = matrix[i - 1]?.[j - 1];
-        if (prevVal !== undefined) {
-          matrix[i]![j] = prevVal;
-        }
-      } else {
-        const sub = matrix[i - 1]?.[j - 1] ?? Infinity;
-        const ins = matrix[i]?.[j - 1] ?? Infinity;
-        const del = matrix[i - 1]?.[j] ?? Infinity;
-        matrix[i]![j] = Math.min(sub + 1, ins + 1, del + 1);
-      }
-    }
-  }
-
-  return matrix[len1]?.[len2] ?? 0;
-}
-
-// Calculate points based on time remaining (5-second interval decay)
-function calculatePoints(timeRemaining: number, maxTime: number): number {
-  // Round down to nearest 5-second interval
-  const intervalTime = Math.floor(timeRemaining / 5) * 5;
-  const percentage = intervalTime / maxTime;
-  const points = Math.floor(MAX_POINTS * percentage);
-  return Math.max(MIN_POINTS, points); // Apply floor
-}
+// Calculate points based on time remaining (5-second interval decay)
+function calculatePoints(timeRemaining: number, maxTime: number): number {
+  // Round down to nearest 5-second interval
+  const intervalTime = Math.floor(timeRemaining / 5) * 5;
+  const percentage = intervalTime / maxTime;
+  const points = Math.floor(MAX_POINTS * percentage);
+  return Math.max(MIN_POINTS, points); // Apply floor
+}
 
 // --- Safe drawer helpers ---
 function getDrawerIndex(room: any): number {
@@ -289,6 +965,204 @@ function hasPlayers(room: any): boolean {
   return Array.isArray(room?.players) && room.players.length > 0;
 }
 
+// Players who take part in the game (spectators excluded)
+function getActivePlayers(room: any): Player[] {
+  return room.players.filter((p: Player) => !p.isSpectator);
+}
+
+// Players actually at the table: connected and not spectating
+function getConnectedPlayerCount(room: any): number {
+  return room.players.filter((p: Player) => p.isConnected && !p.isSpectator).length;
+}
+
+function canDraw(player: Player | undefined): boolean {
+  return !!player && player.isConnected && !player.isSpectator;
+}
+
+// Connected players, other than the drawer, who can still score this turn
+function countEligibleGuessers(room: any): number {
+  const drawer = getDrawer(room);
+  return room.players.filter((p: Player) =>
+    p.isConnected && !p.isSpectator && p.sessionId !== drawer?.sessionId && canGuessThisTurn(room, p)
+  ).length;
+}
+
+// Socket.IO room that only spectators of roomId join
+function spectatorRoom(roomId: string): string {
+  return `${roomId}:spectators`;
+}
+
+// Socket.IO room for the drawer and players who guessed the current word
+function guessedRoom(roomId: string): string {
+  return `${roomId}:guessed`;
+}
+
+// Channel for a chat line, or null if it would give the word away.
+// While a word is being drawn, players who already guessed it talk on the
+// guessed channel; everyone else (the drawer included) is checked for leaks.
+function getChatChannel(room: any, sender: Player, text: string): ChatChannel | null {
+  const drawing = room.gameStarted && room.currentWord;
+  if (drawing && room.correctGuessers?.includes(sender.sessionId)) return 'guessed';
+  if (drawing && revealsWord(text, getAcceptedAnswers(room.currentWord, customEntries(room), room.language), room.language)) return null;
+  return sender.isSpectator && room.spectatorChatIsolated ? 'spectators' : 'all';
+}
+
+// Player indices in drawing order. In team mode teams take turns:
+// first member of each team, then the second members, and so on.
+function getDrawOrder(room: any): number[] {
+  const indices = room.players.map((_: Player, idx: number) => idx);
+  if (!room.teamMode) return indices;
+
+  const teamCount = room.teamCount || 2;
+  const byTeam: number[][] = Array.from({ length: teamCount }, () => []);
+  const unassigned: number[] = [];
+  for (const idx of indices) {
+    const team = room.players[idx].team;
+    if (typeof team === 'number' && byTeam[team]) {
+      byTeam[team].push(idx);
+    } else {
+      unassigned.push(idx);
+    }
+  }
+
+  const order: number[] = [];
+  const longest = Math.max(0, ...byTeam.map(members => members.length));
+  for (let i = 0; i < longest; i++) {
+    for (const members of byTeam) {
+      const idx = members[i];
+      if (idx !== undefined) order.push(idx);
+    }
+  }
+  return [...order, ...unassigned];
+}
+
+// Next connected player after fromIdx in drawing order;
+// wrapped is true when the rotation passed the end
+function getNextDrawerIndex(room: any, fromIdx: number): { index: number; wrapped: boolean } {
+  const order = getDrawOrder(room);
+  const len = order.length;
+  const pos = order.indexOf(fromIdx);
+  for (let step = 1; step <= len; step++) {
+    const idx = order[(pos + step) % len]!;
+    if (canDraw(room.players[idx])) {
+      return { index: idx, wrapped: pos + step >= len };
+    }
+  }
+
+  // Nobody connected, fall back to plain rotation
+  return { index: order[(pos + 1) % len] ?? 0, wrapped: pos + 1 >= len };
+}
+
+// --- Team helpers ---
+// Put unassigned players (or everyone, when reshuffling) into the smallest teams
+function assignTeams(room: any, reshuffle = false) {
+  const teamCount = room.teamCount || 2;
+  const players = getActivePlayers(room);
+  const sizes: number[] = Array(teamCount).fill(0);
+
+  const pending = reshuffle
+    ? [...players].sort(() => Math.random() - 0.5)
+    : players.filter(p => {
+        const valid = typeof p.team === 'number' && p.team >= 0 && p.team < teamCount;
+        if (valid) sizes[p.team!]! += 1;
+        return !valid;
+      });
+
+  for (const player of pending) {
+    const smallest = sizes.indexOf(Math.min(...sizes));
+    player.team = smallest;
+    sizes[smallest]! += 1;
+  }
+  room.markModified?.('players');
+}
+
+// In team mode only the drawer's team guesses, unless stealing is on
+function canGuessThisTurn(room: any, player: Player): boolean {
+  if (!room.teamMode || room.teamStealing) return true;
+  return player.team === getDrawer(room)?.team;
+}
+
+// Team totals are the sum of member scores, best team first
+function getTeamScores(room: any) {
+  const teamCount = room.teamCount || 2;
+  return Array.from({ length: teamCount }, (_, team) => {
+    const members = getActivePlayers(room).filter(p => p.team === team);
+    return {
+      team,
+      score: members.reduce((sum, p) => sum + (p.score || 0), 0),
+      roundPoints: members.reduce((sum, p) => sum + (room.roundPoints?.get(p.sessionId) || 0), 0),
+      members: members.map(p => p.sessionId),
+    };
+  }).sort((a, b) => b.score - a.score);
+}
+
+// --- Host helpers ---
+// Rooms created before host tracking fall back to the first player
+function getHostSessionId(room: any): string | undefined {
+  return room?.hostSessionId || room?.players?.[0]?.sessionId;
+}
+
+function isHostSocket(room: any, socketId: string): boolean {
+  const hostSessionId = getHostSessionId(room);
+  if (!hostSessionId) return false;
+  const player = room.players.find((p: Player) => p.id === socketId);
+  return player?.sessionId === hostSessionId;
+}
+
+// Longest-connected player that is still online, excluding the current host
+function pickNextHost(room: any): Player | undefined {
+  const currentHost = getHostSessionId(room);
+  return room.players
+    .filter((p: Player) => p.isConnected && !p.isSpectator && p.sessionId !== currentHost)
+    .sort((a: Player, b: Player) =>
+      new Date(a.joinedAt ?? 0).getTime() - new Date(b.joinedAt ?? 0).getTime()
+    )[0];
+}
+
+function emitHostChanged(io: Server, roomId: string, host: Player) {
+  io.to(roomId).emit('hostChanged', {
+    hostId: host.sessionId,
+    hostName: host.name,
+  });
+}
+
+function cancelHostMigration(roomId: string) {
+  const timeout = hostMigrationTimeouts.get(roomId);
+  if (timeout) {
+    clearTimeout(timeout);
+    hostMigrationTimeouts.delete(roomId);
+  }
+}
+
+// Hand host status to the next player if the host is still gone after the grace period
+function scheduleHostMigration(io: Server, roomId: string) {
+  cancelHostMigration(roomId);
+
+  const timeout = setTimeout(async () => {
+    hostMigrationTimeouts.delete(roomId);
+    try {
+      const room = await Room.findOne({ roomId });
+      if (!room) return;
+
+      const host = room.players.find(p => p.sessionId === getHostSessionId(room));
+      if (host?.isConnected) return; // Host came back in time
+
+      const nextHost = pickNextHost(room);
+      if (!nextHost) return; // Nobody online to take over
+
+      room.hostSessionId = nextHost.sessionId;
+      await room.save();
+
+      console.log(`[HOST] Host of ${roomId} migrated to ${nextHost.name} (${nextHost.sessionId})`);
+      emitHostChanged(io, roomId, nextHost);
+    } catch (error) {
+      console.error('[HOST] Failed to migrate host:', error);
+    }
+  }, HOST_MIGRATION_GRACE_MS);
+
+  hostMigrationTimeouts.set(roomId, timeout);
+}
+
 async function endTurn(io: Server, roomId: string) {
   // Prevent duplicate endTurn calls
   if (endTurnInProgress.get(roomId)) {
@@ -313,11 +1187,53 @@ async function endTurn(io: Server, roomId: string) {
     room.roundPoints.set(drawer.sessionId, drawerBonus);
   }
 
+  // Keep the finished turn for match history (skipped if no word was chosen)
+  const turnRecord = room.currentWord ? buildTurnRecord(room, drawer, drawerBonus) : undefined;
+  if (turnRecord) {
+    room.turnHistory.push(turnRecord);
+  }
+
+  // How many of the players who could guess got the word, for the adaptive curve
+  const eligibleGuessers = countEligibleGuessers(room);
+  if (room.currentWord && eligibleGuessers > 0) {
+    room.recentGuessRates = recordGuessRate(room.recentGuessRates ?? [], (room.correctGuessers?.length || 0) / eligibleGuessers);
+    if (room.difficultyPreset === 'adaptive') {
+      room.difficultyWeights = adaptiveWeights(room.recentGuessRates);
+    }
+  }
+
+  // The word is revealed now, so the guessed channel closes
+  io.in(guessedRoom(roomId)).socketsLeave(guessedRoom(roomId));
+
+  // Persist the final canvas now rather than after the debounce
+  canvasDrawers.delete(roomId);
+  await flushCanvas(roomId);
+
+  // Store the turn's strokes for replays
+  const recording = turnRecordings.get(roomId);
+  turnRecordings.delete(roomId);
+  if (recording && turnRecord && drawer) {
+    DrawingRecord.create({
+      turnId: recording.turnId,
+      roomId,
+      round: turnRecord.round,
+      drawerSessionId: drawer.sessionId,
+      drawerName: drawer.name,
+      word: turnRecord.word,
+      startedAt: new Date(recording.startedAt),
+      durationMs: Date.now() - recording.startedAt,
+      events: recording.events,
+      truncated: recording.truncated,
+    }).catch(error => {
+      console.error('[REPLAY] Failed to store drawing record:', error);
+    });
+  }
+
   // Save room with updated scores
   await room.save();
 
   // Prepare round results with points earned this round
-  const playersWithRoundPoints = room.players.map((p: Player) => ({
+  const playersWithRoundPoints = getActivePlayers(room).map((p: Player) => ({
     id: p.id,
     name: p.name,
     score: p.score || 0,
@@ -326,20 +1242,30 @@ async function endTurn(io: Server, roomId: string) {
   }));
 
   io.to(roomId).emit('turnEnded', {
+    turnId: turnRecord?.turnId ?? null,
     word: room.currentWord,
     correctGuessers: room.correctGuessers ?? [],
     drawerBonus,
     players: playersWithRoundPoints,
+    teams: room.teamMode ? getTeamScores(room) : [],
   });
 
-  // Rotate drawer safely
+  // Lifetime stats are best-effort and never hold up the game
+  const turnGuesses = (room.correctGuessers ?? []).flatMap((sessionId: string) => {
+    const player = room.players.find((p: Player) => p.sessionId === sessionId);
+    return player ? [{ player, timeMs: room.guessTimes?.get(sessionId) ?? 0 }] : [];
+  });
+  recordTurnStats({ word: room.currentWord, drawer, guesses: turnGuesses }).catch(error => {
+    console.error('[STATS] Failed to record turn stats:', error);
+  });
+
+  // Rotate drawer safely, skipping disconnected players
   if (room.players.length > 0) {
-    const currentIdx = getDrawerIndex(room);
-    const nextIdx = (currentIdx + 1) % room.players.length;
-    room.drawerIndex = nextIdx;
+    const next = getNextDrawerIndex(room, getDrawerIndex(room));
+    room.drawerIndex = next.index;
 
     // If wrapped, increment round
-    if (nextIdx === 0) {
+    if (next.wrapped) {
       room.round = (room.round || 1) + 1;
     }
   }
@@ -347,19 +1273,7 @@ async function endTurn(io: Server, roomId: string) {
   // Game end?
   if ((room.round || 1) > (room.maxRounds || 3)) {
     console.log(`[DRAWER DEBUG] Game ending - Final round: ${room.round}, Max rounds: ${room.maxRounds}`);
-    
-    const t = roomIntervals.get(roomId);
-    if (t) clearInterval(t);
-    roomIntervals.delete(roomId);
-
-    const sorted = [...room.players].sort((a, b) => (b.score || 0) - (a.score || 0));
-    io.to(roomId).emit('gameOver', { players: sorted });
-    room.gameStarted = false;
-    room.currentWord = undefined;
-    room.correctGuessers = [];
-    await room.save();
-    
-    console.log(`[DRAWER DEBUG] Game ended and state reset`);
+    await finishGame(io, room);
     endTurnInProgress.delete(roomId);
     return;
   }
@@ -419,292 +1333,1690 @@ async function endTurn(io: Server, roomId: string) {
   }
 }
 
-// Select words based on custom word probability and difficulty
-function selectWords(room: any, count: number): string[] {
-  const selectedWords: string[] = [];
-  const customWords = room.customWords || [];
-  const probability = room.customWordProbability || 0;
+// Announce final standings and reset the room to the lobby
+async function finishGame(io: Server, room: any) {
+  const roomId = room.roomId;
+  const t = roomIntervals.get(roomId);
+  if (t) clearInterval(t);
+  roomIntervals.delete(roomId);
+
+  const sorted = getActivePlayers(room).sort((a: Player, b: Player) => (b.score || 0) - (a.score || 0));
+  const teams = room.teamMode ? getTeamScores(room) : [];
+  io.to(roomId).emit('gameOver', {
+    players: publicPlayers(sorted),
+    teams,
+  });
 
-  for (let i = 0; i < count; i++) {
-    const useCustom = customWords.length > 0 && Math.random() * 100 < probability;
-    
-    if (useCustom && customWords.length > 0) {
-      // Pick from custom words
-      const word = customWords[Math.floor(Math.random() * customWords.length)] || 'default';
-      selectedWords.push(word);
-    } else {
-      // Pick from server dictionary with weighted difficulty
-      // 20% easy, 40% medium, 40% hard
-      const rand = Math.random() * 100;
-      let word: string;
-      
-      if (rand < 20) {
-        // 20% chance - Easy word
-        word = getRandomWordByDifficulty('easy');
-      } else if (rand < 60) {
-        // 40% chance - Medium word
-        word = getRandomWordByDifficulty('medium');
-      } else {
-        // 40% chance - Hard word
-        word = getRandomWordByDifficulty('hard');
-      }
-      
-      selectedWords.push(word);
-    }
-  }
+  recordGameStats(sorted, getWinnerSessionIds(sorted, teams)).catch(error => {
+    console.error('[STATS] Failed to record game stats:', error);
+  });
+  recordLeaderboardResults(sorted, room.turnHistory?.length ?? 0).catch(error => {
+    console.error('[LEADERBOARD] Failed to record results:', error);
+  });
+  recordMatch(room, sorted, teams, [...(room.turnHistory ?? [])]).catch(error => {
+    console.error('[MATCH] Failed to record match:', error);
+  });
 
-  return selectedWords;
+  room.gameStarted = false;
+  room.currentWord = undefined;
+  room.correctGuessers = [];
+  room.turnHistory = [];
+  await room.save();
+
+  console.log(`[DRAWER DEBUG] Game ended and state reset`);
 }
 
-function startTurn(io: Server, room: any) {
-  if (!hasPlayers(room)) return;
+// Top scorers win; in team mode every member of the best team(s) wins.
+// Nobody wins when everyone is tied, which includes nobody scoring.
+function getWinnerSessionIds(sorted: Player[], teams: { score: number; members: string[] }[]): Set<string> {
+  if (teams.length > 0) {
+    const best = teams[0]!.score;
+    if (teams.every(t => t.score === best)) return new Set();
+    return new Set(teams.filter(t => t.score === best).flatMap(t => t.members));
+  }
 
-  const drawer = getDrawer(room);
-  if (!drawer) return;
+  const best = sorted[0]?.score || 0;
+  if (sorted.every(p => (p.score || 0) === best)) return new Set();
+  return new Set(sorted.filter(p => (p.score || 0) === best).map(p => p.sessionId));
+}
 
-  console.log(`[DRAWER DEBUG] Turn starting - Round ${room.round}, Selected drawer: ${drawer.name} (index: ${room.drawerIndex}), Total players: ${room.players.length}`);
+// Append a drawing event to the running turn's recording
+function recordDrawingEvent(roomId: string, type: DrawingEventType, data: Pick<DrawingEvent, 'lines' | 'targetId'> = {}) {
+  const recording = turnRecordings.get(roomId);
+  if (!recording) return;
 
-  // Generate word choices
-  const wordCount = room.wordCount || 3;
-  const wordChoices = selectWords(room, wordCount);
+  if (recording.events.length >= MAX_RECORDED_EVENTS) {
+    recording.truncated = true;
+    return;
+  }
+  recording.events.push({ t: Date.now() - recording.startedAt, type, ...data });
+}
 
-  // Set timing (use room's drawTime setting)
-  const drawTime = room.drawTime || 60;
-  room.correctGuessers = [];
-  room.gameStarted = true;
-  room.turnEndsAt = new Date(Date.now() + (drawTime + 8) * 1000); // +8 for word selection
+// Count and log an event whose caller is not in the room or lacks the role,
+// and drop sockets that keep sending them
+function reportForgedEvent(socket: Socket, event: string, roomId: unknown, reason: string) {
+  const count = (forgedEventCounts.get(socket.id) || 0) + 1;
+  forgedEventCounts.set(socket.id, count);
+  forgedEventTotals.set(event, (forgedEventTotals.get(event) || 0) + 1);
+  console.warn(`[SECURITY] Forged ${event} from ${socket.id} for room ${String(roomId)}: ${reason} (${count})`);
+
+  if (count >= FORGED_EVENT_LIMIT) {
+    console.warn(`[SECURITY] Disconnecting ${socket.id} after ${count} forged events`);
+    socket.disconnect(true);
+  }
+}
 
-  // Mark drawer on players array
-  const safeIdx = getDrawerIndex(room);
-  room.players = room.players.map((p: Player, idx: number) => ({
-    ...p,
-    isDrawer: idx === safeIdx,
-  }));
+// Client address like Express's req.ip: each trusted proxy appends the address
+// it saw, so the client is TRUST_PROXY_HOPS entries from the right. Anything
+// further left was sent by the client and is ignored.
+function getClientIp(socket: Socket): string {
+  if (TRUST_PROXY_HOPS === 0) return socket.handshake.address;
+
+  const header = socket.handshake.headers['x-forwarded-for'];
+  const forwarded = (Array.isArray(header) ? header.join(',') : header ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  const chain = [...forwarded, socket.handshake.address];
+  return chain[Math.max(0, chain.length - 1 - TRUST_PROXY_HOPS)] ?? socket.handshake.address;
+}
 
-  // Clear canvas for new turn
-  io.to(room.roomId).emit('clearCanvas');
+// Refuse sessions and addresses with a server-wide ban
+async function rejectBanned(socket: Socket, sessionId: string | undefined): Promise<boolean> {
+  const ban = await findActiveBan(sessionId, getClientIp(socket));
+  if (!ban) return false;
 
-  // Sort players by score for display
-  const sortedPlayers = [...room.players].sort((a: Player, b: Player) => (b.score || 0) - (a.score || 0));
+  socket.emit('error', { message: 'You are banned from this server' });
+  return true;
+}
 
-  // Send word choices to drawer for selection (8 seconds) with current scores
-  io.to(drawer.id).emit('selectWord', { 
-    words: wordChoices,
-    timeLimit: 8,
-    scores: sortedPlayers.map((p: Player) => ({ name: p.name, score: p.score || 0, avatar: p.avatar }))
+// Store a server-wide ban and drop the matching players right away
+async function applyBan(options: { sessionId?: string | undefined; ip?: string | undefined; reason: string; reportId?: string; minutes?: unknown }) {
+  const minutes = Number(options.minutes);
+  const ban = await Ban.create({
+    ...(options.sessionId ? { sessionId: options.sessionId } : {}),
+    ...(options.ip ? { ip: options.ip } : {}),
+    reason: options.reason,
+    ...(options.reportId ? { reportId: options.reportId } : {}),
+    ...(minutes > 0 ? { expiresAt: new Date(Date.now() + minutes * 60 * 1000) } : {}),
   });
 
-  // Broadcast to others that drawer is selecting with current scores
-  io.to(room.roomId).emit('drawerSelecting', {
-    drawerId: drawer.id,
-    timeLimit: 8,
-    scores: sortedPlayers.map((p: Player) => ({ name: p.name, score: p.score || 0, avatar: p.avatar }))
+  logModeration({
+    type: 'ban',
+    actor: 'admin',
+    ...(options.sessionId ? { sessionId: options.sessionId } : {}),
+    ...(options.reportId ? { reportId: options.reportId } : {}),
+    detail: `${options.ip ? `ip ${options.ip}` : 'session'}${minutes > 0 ? ` for ${minutes} minutes` : ''}: ${options.reason}`,
   });
 
-  // Wait for drawer to select or auto-select randomly after 8 seconds
-  const wordSelectionTimeout = setTimeout(async () => {
-    const freshRoom = await Room.findOne({ roomId: room.roomId });
-    if (!freshRoom || freshRoom.currentWord) return; // Already selected
+  const socketIds = new Set<string>();
+  if (options.sessionId) {
+    const rooms = await Room.find({ 'players.sessionId': options.sessionId }, { players: 1 }).lean();
+    for (const room of rooms) {
+      const player = room.players.find(p => p.sessionId === options.sessionId);
+      if (player?.isConnected) socketIds.add(player.id);
+    }
+  }
+  if (options.ip) {
+    for (const socket of io.sockets.sockets.values()) {
+      if (getClientIp(socket) === options.ip) socketIds.add(socket.id);
+    }
+  }
 
-    // Auto-select random word if drawer didn't choose
-    const randomIndex = Math.floor(Math.random() * wordChoices.length);
-    const selectedWord = wordChoices[randomIndex] || 'default';
-    freshRoom.currentWord = selectedWord;
-    await freshRoom.save();
+  for (const id of socketIds) {
+    const socket = io.sockets.sockets.get(id);
+    socket?.emit('banned', { reason: options.reason, ...(ban.expiresAt ? { until: ban.expiresAt } : {}) });
+    socket?.disconnect(true);
+  }
 
-    startDrawingPhase(io, freshRoom, selectedWord, drawTime);
-  }, 8000);
+  console.log(`[MODERATION] Ban ${ban.id} applied, ${socketIds.size} socket(s) disconnected`);
+  return ban;
+}
 
-  // Store timeout reference
-  wordSelectionTimeouts.set(room.roomId, wordSelectionTimeout);
+function mutePlayer(socket: Socket, roomId: string, player: Player, reason: string) {
+  const key = `${roomId}:${player.sessionId}`;
+  const until = Date.now() + MUTE_DURATION;
+  chatMutes.set(key, until);
+  moderationStrikes.delete(key);
 
-  // Persist state
-  room.markModified?.('players');
-  void room.save();
+  console.log(`[MODERATION] Muted ${player.name} in ${roomId} until ${new Date(until).toISOString()}: ${reason}`);
+  socket.emit('muted', { roomId, until: new Date(until), reason });
+  logModeration({ type: 'mute', roomId, sessionId: player.sessionId, name: player.name, detail: reason });
 }
 
-// Start the actual drawing phase after word is selected
-function startDrawingPhase(io: Server, room: any, word: string, drawTime: number) {
-  const drawer = getDrawer(room);
+// Run chat text through the room's moderation level, counting strikes and
+// muting repeat offenders. Returns the text to send, or null to drop it.
+function moderateChat(socket: Socket, room: any, player: Player, text: string): string | null {
+  const key = `${room.roomId}:${player.sessionId}`;
+  const mutedUntil = chatMutes.get(key) ?? 0;
+  if (mutedUntil > Date.now()) {
+    socket.emit('error', { message: `You are muted for ${Math.ceil((mutedUntil - Date.now()) / 1000)} more seconds` });
+    return null;
+  }
+  chatMutes.delete(key);
+
+  const result = moderateMessage(text, room.moderationLevel, room.language);
+  if (result.action !== 'allow') {
+    logModeration({
+      type: 'filter',
+      roomId: room.roomId,
+      sessionId: player.sessionId,
+      name: player.name,
+      action: result.action,
+      ...(result.severity ? { severity: result.severity } : {}),
+      text: text.slice(0, 500),
+      ...(result.reason ? { detail: result.reason } : {}),
+    });
+  }
+  if (result.action === 'allow' || result.action === 'mask') {
+    return result.text;
+  }
 
-  // Reset round points and revealed letters for new turn
-  room.roundPoints = new Map();
-  room.revealedLetters = [];
+  if (result.reason !== 'profanity') {
+    socket.emit('error', { message: 'Message blocked: too long or spam' });
+    return null;
+  }
 
-  // Initial hint with no letters revealed
-  const hint = maskWord(word, room.revealedLetters);
+  if (result.action === 'mute') {
+    mutePlayer(socket, room.roomId, player, `${result.severity} language`);
+    return null;
+  }
 
-  // Mark drawer on players array
-  const safeIdx = getDrawerIndex(room);
-  room.players = room.players.map((p: Player, idx: number) => ({
-    ...p,
-    isDrawer: idx === safeIdx,
-  }));
+  const now = Date.now();
+  const strikes = moderationStrikes.get(key);
+  const count = strikes && now < strikes.resetTime ? strikes.count + 1 : 1;
+  moderationStrikes.set(key, { count, resetTime: strikes && now < strikes.resetTime ? strikes.resetTime : now + STRIKE_WINDOW });
 
-  // Broadcast start-of-drawing state
-  io.to(room.roomId).emit('gameStarted', {
-    drawerId: drawer?.id ?? null,
-    wordHint: hint,
-    timeLeft: drawTime,
-    round: room.round,
-    maxRounds: room.maxRounds || 3,
-  });
+  if (count >= STRIKE_LIMIT) {
+    mutePlayer(socket, room.roomId, player, `${count} blocked messages`);
+    return null;
+  }
 
-  // Send actual word to drawer only
-  if (drawer?.id) {
-    io.to(drawer.id).emit('yourWord', { word });
+  socket.emit('error', { message: 'Message blocked: inappropriate content' });
+  return null;
+}
+
+function clearModeration(roomId: string) {
+  for (const map of [moderationStrikes, chatMutes, reportCooldowns]) {
+    for (const key of map.keys()) {
+      if (key.startsWith(`${roomId}:`)) map.delete(key);
+    }
   }
+}
 
-  // Reset interval for this room - CRITICAL: Clear old timer first
-  const prev = roomIntervals.get(room.roomId);
-  if (prev) {
-    console.log(`[DRAWER DEBUG] Clearing previous timer for room ${room.roomId}`);
-    clearInterval(prev);
-    roomIntervals.delete(room.roomId);
+// Live canvas of a room, rebuilt from the saved drawing after a restart
+async function loadCanvas(roomId: string): Promise<CanvasState | undefined> {
+  const cached = canvasStates.get(roomId);
+  if (cached) return cached;
+
+  const room = await Room.findOne({ roomId }).lean();
+  if (!room) return undefined;
+
+  // Another event may have loaded it meanwhile
+  const state = canvasStates.get(roomId) ?? createCanvasState(normalizeStrokes(room.currentDrawing) ?? [], room.canvasSeq || 0);
+  canvasStates.set(roomId, state);
+
+  const drawer = getDrawer(room);
+  if (room.gameStarted && room.currentWord && drawer && !canvasDrawers.has(roomId)) {
+    canvasDrawers.set(roomId, drawer.id);
   }
+  return state;
+}
 
-  // Calculate hint reveal times
-  const halfTime = Math.floor(drawTime / 2);
-  const firstHintTime = halfTime;
-  const secondHintTime = 15;
+// Write the canvas to MongoDB at most once per CANVAS_SAVE_DELAY_MS
+function scheduleCanvasSave(roomId: string) {
+  if (canvasSaveTimeouts.has(roomId)) return;
 
-  // Track hint reveals using closure
-  const hintState = {
-    firstRevealed: false,
-    secondRevealed: false,
-  };
+  canvasSaveTimeouts.set(roomId, setTimeout(() => {
+    void flushCanvas(roomId);
+  }, CANVAS_SAVE_DELAY_MS));
+}
 
-  const timer = setInterval(async () => {
-    try {
-      const r = await Room.findOne({ roomId: room.roomId });
-      if (!r || !r.currentWord) return;
+async function flushCanvas(roomId: string) {
+  const timeout = canvasSaveTimeouts.get(roomId);
+  if (!timeout) return;
+  clearTimeout(timeout);
+  canvasSaveTimeouts.delete(roomId);
 
-      const endsAt = r.turnEndsAt ? new Date(r.turnEndsAt).getTime() : 0;
-      const now = Date.now();
-      const secs = Math.max(0, Math.ceil((endsAt - now) / 1000));
-    
-    // Reveal first hint at half time
-    if (!hintState.firstRevealed && secs <= firstHintTime && secs > secondHintTime) {
-      hintState.firstRevealed = true;
-      const newIndices = getRevealIndices(r.currentWord, 1, r.revealedLetters);
-      r.revealedLetters = [...r.revealedLetters, ...newIndices];
-      const newHint = maskWord(r.currentWord, r.revealedLetters);
-      await r.save();
+  const state = canvasStates.get(roomId);
+  if (!state) return;
+
+  try {
+    await Room.updateOne({ roomId }, { currentDrawing: state.strokes, canvasSeq: state.seq });
+  } catch (error) {
+    console.error('[CANVAS] Failed to save drawing state:', error);
+  }
+}
+
+function dropCanvas(roomId: string) {
+  const timeout = canvasSaveTimeouts.get(roomId);
+  if (timeout) {
+    clearTimeout(timeout);
+    canvasSaveTimeouts.delete(roomId);
+  }
+  canvasStates.delete(roomId);
+  canvasResyncRequests.delete(roomId);
+  canvasDrawers.delete(roomId);
+}
+
+// Apply one drawer op, broadcast it and schedule the save.
+// On a gap the drawer is asked once to resend from the first missing seq.
+async function handleCanvasOp(socket: Socket, event: string, roomId: string, request: { seq: number; type: CanvasOpType; strokes?: Stroke[] }) {
+  const state = await loadCanvas(roomId);
+  if (!state) return;
+
+  if (canvasDrawers.get(roomId) !== socket.id) {
+    reportForgedEvent(socket, event, roomId, 'not the drawer');
+    socket.emit('error', { message: 'Only the drawer can draw' });
+    return;
+  }
+
+  const result = applyCanvasOp(state, request);
+  if (result.status === 'duplicate') return;
+  if (result.status === 'full') {
+    socket.emit('error', { message: 'Drawing is too large' });
+    return;
+  }
+  if (result.status === 'gap') {
+    if (canvasResyncRequests.get(roomId) !== result.expectedSeq) {
+      canvasResyncRequests.set(roomId, result.expectedSeq);
+      console.log(`[CANVAS] Gap in ${roomId}: expected seq ${result.expectedSeq}, got ${request.seq}`);
+      socket.emit('canvasResync', { roomId, expectedSeq: result.expectedSeq });
+    }
+    return;
+  }
+
+  canvasResyncRequests.delete(roomId);
+  const { op } = result;
+  if (op.type === 'clear') {
+    socket.to(roomId).emit('clearCanvas', { seq: op.seq });
+    recordDrawingEvent(roomId, 'clear');
+  } else if (op.type === 'strokes') {
+    socket.to(roomId).emit('drawDelta', { seq: op.seq, strokes: op.strokes ?? [] });
+    recordDrawingEvent(roomId, 'strokes', { lines: op.strokes ?? [] });
+  } else {
+    // The server picks the target, so the drawer gets the result too.
+    // Only the target is recorded; replays re-run the undo stack.
+    io.to(roomId).emit(op.type === 'undo' ? 'canvasUndo' : 'canvasRedo', op);
+    recordDrawingEvent(roomId, op.type, { targetId: op.targetId ?? null });
+  }
+
+  // Periodic compacted snapshot lets clients recover without asking
+  if (result.keyframe) {
+    io.to(roomId).emit('canvasKeyframe', result.keyframe);
+  }
+
+  scheduleCanvasSave(roomId);
+}
+
+function stopReplay(socketId: string) {
+  const timeout = activeReplays.get(socketId);
+  if (timeout) {
+    clearTimeout(timeout);
+    activeReplays.delete(socketId);
+  }
+}
+
+// Re-emit a recorded turn to one socket, speed times faster than real time
+function startReplay(socket: Socket, turnId: string, events: DrawingEvent[], durationMs: number, speed: number) {
+  stopReplay(socket.id);
+
+  const startedAt = Date.now();
+  let next = 0;
+  let canvas = createCanvasState();
+
+  const step = () => {
+    const elapsed = (Date.now() - startedAt) * speed;
+    while (next < events.length && events[next]!.t <= elapsed) {
+      const event = events[next]!;
+      canvas = applyDrawingEvent(canvas, event);
+      if (event.type === 'clear') {
+        socket.emit('replayClear', { turnId });
+      } else if (event.type === 'strokes') {
+        socket.emit('replayStrokes', { turnId, strokes: event.lines ?? [] });
+      } else {
+        // Undo, redo and older full-drawing events: send the canvas as it now stands
+        socket.emit('replayDraw', { turnId, lines: [...canvas.strokes] });
+      }
+      next++;
+    }
+
+    if (next >= events.length) {
+      activeReplays.delete(socket.id);
+      socket.emit('replayEnded', { turnId });
+      return;
+    }
+
+    const wait = Math.max(0, (events[next]!.t - elapsed) / speed);
+    activeReplays.set(socket.id, setTimeout(step, wait));
+  };
+
+  socket.emit('replayStarted', { turnId, speed, durationMs: Math.round(durationMs / speed) });
+  step();
+}
+
+// Stop the running turn timer and any pending word selection
+function stopTurnTimers(roomId: string) {
+  const interval = roomIntervals.get(roomId);
+  if (interval) {
+    clearInterval(interval);
+    roomIntervals.delete(roomId);
+  }
+
+  const timeout = wordSelectionTimeouts.get(roomId);
+  if (timeout) {
+    clearTimeout(timeout);
+    wordSelectionTimeouts.delete(roomId);
+  }
+  offeredWords.delete(roomId);
+}
+
+// Remove a player from the room, keeping drawer rotation and host intact
+async function removePlayerFromRoom(io: Server, roomId: string, sessionId: string): Promise<Player | undefined> {
+  let room = await Room.findOne({ roomId });
+  if (!room) return undefined;
+
+  // A departing drawer ends the turn first so scores and rotation settle normally
+  const drawer = getDrawer(room);
+  if (room.gameStarted && drawer?.sessionId === sessionId) {
+    stopTurnTimers(roomId);
+    await endTurn(io, roomId);
+    room = await Room.findOne({ roomId });
+    if (!room) return undefined;
+  }
+
+  const removedIdx = room.players.findIndex(p => p.sessionId === sessionId);
+  if (removedIdx === -1) return undefined;
+  const removed = room.players[removedIdx]!;
+  room.players.splice(removedIdx, 1);
+  cancelDisconnectRemoval(roomId, sessionId);
+
+  // Keep drawerIndex pointing at the same upcoming drawer
+  if (removedIdx < room.drawerIndex) {
+    room.drawerIndex -= 1;
+  }
+  if (room.drawerIndex >= room.players.length) {
+    room.drawerIndex = getDrawOrder(room)[0] ?? 0;
+    if (room.gameStarted) {
+      room.round = (room.round || 1) + 1;
+    }
+  }
+
+  // Hand over host immediately, there is no one to wait for
+  let newHost: Player | undefined;
+  if (removed.sessionId === getHostSessionId(room)) {
+    cancelHostMigration(roomId);
+    newHost = pickNextHost(room);
+    room.hostSessionId = newHost?.sessionId ?? '';
+  }
+
+  room.correctGuessers = room.correctGuessers.filter(id => id !== sessionId);
+  await room.save();
+
+  const roomVotes = voteKicks.get(roomId);
+  if (roomVotes) {
+    roomVotes.delete(sessionId);
+    for (const vote of roomVotes.values()) {
+      vote.voters.delete(sessionId);
+    }
+  }
+
+  io.in(removed.id).socketsLeave([roomId, spectatorRoom(roomId), guessedRoom(roomId)]);
+  if (newHost) {
+    emitHostChanged(io, roomId, newHost);
+  }
+  io.to(roomId).emit('playerJoined', { players: publicPlayers(room.players) });
+
+  console.log(`[SESSION] ${removed.name} (${removed.sessionId}) removed from ${roomId}`);
+  return removed;
+}
+
+function cancelDisconnectRemoval(roomId: string, sessionId: string) {
+  const key = `${roomId}:${sessionId}`;
+  const timeout = disconnectTimeouts.get(key);
+  if (timeout) {
+    clearTimeout(timeout);
+    disconnectTimeouts.delete(key);
+  }
+}
+
+// Drop a disconnected player from the room if they do not come back in time
+function scheduleDisconnectRemoval(io: Server, roomId: string, sessionId: string) {
+  cancelDisconnectRemoval(roomId, sessionId);
+
+  const key = `${roomId}:${sessionId}`;
+  const timeout = setTimeout(async () => {
+    disconnectTimeouts.delete(key);
+    try {
+      const room = await Room.findOne({ roomId });
+      const player = room?.players.find(p => p.sessionId === sessionId);
+      if (!player || player.isConnected) return;
+
+      const removed = await removePlayerFromRoom(io, roomId, sessionId);
+      if (removed) {
+        io.to(roomId).emit('playerLeft', {
+          playerId: removed.sessionId,
+          playerName: removed.name,
+          reason: 'timeout',
+        });
+      }
+    } catch (error) {
+      console.error('[SESSION] Failed to remove disconnected player:', error);
+    }
+  }, DISCONNECTED_PLAYER_TIMEOUT);
+
+  disconnectTimeouts.set(key, timeout);
+}
+
+// Remove and ban a player, telling both them and the room
+async function kickPlayer(io: Server, roomId: string, sessionId: string, reason: 'host' | 'vote') {
+  await Room.updateOne({ roomId }, { $addToSet: { bannedSessionIds: sessionId } });
+
+  const removed = await removePlayerFromRoom(io, roomId, sessionId);
+  if (!removed) return;
+
+  io.to(removed.id).emit('kicked', { roomId, reason });
+  io.to(roomId).emit('playerKicked', {
+    playerId: removed.sessionId,
+    playerName: removed.name,
+    reason,
+  });
+
+  console.log(`[KICK] ${removed.name} kicked from ${roomId} (${reason})`);
+  logModeration({ type: 'kick', actor: reason, roomId, sessionId: removed.sessionId, name: removed.name });
+}
+
+// A word choice and where it came from: a dictionary category, the
+// room's custom words, or null for dictionary words without a category
+interface WordChoice {
+  word: string;
+  category: WordCategory | 'custom' | null;
+}
+
+// Words to avoid, strictest first: everything the room offered or played
+// recently, then only this game's drawn words, then only this set of choices
+function exclusionTiers(room: any, inThisSet: Set<string>): Set<string>[] {
+  const played = [...(room.turnHistory ?? []).map((turn: TurnRecord) => turn.word), room.currentWord].filter(Boolean);
+  return [
+    new Set([...(room.usedWords ?? []), ...inThisSet]),
+    new Set([...played, ...inThisSet]),
+    inThisSet,
+  ];
+}
+
+// The room's custom words followed by the words of its attached packs
+function customWordPool(room: any): WordPackWord[] {
+  return [...(room.customWords ?? []).map((word: string) => ({ word })), ...(room.packWords ?? [])];
+}
+
+// Entries of the custom pool, for accepted answers
+function customEntries(room: any): string[] {
+  return customWordPool(room).map(w => w.word);
+}
+
+// Random custom word not in `exclude`, preferring words tagged with the rolled difficulty or untagged
+function pickCustomWord(pool: WordPackWord[], difficulty: WordDifficulty, exclude: Set<string>): string | undefined {
+  const unused = pool.filter(w => !exclude.has(displayWord(w.word)));
+  const matching = unused.filter(w => !w.difficulty || w.difficulty === difficulty);
+  const candidates = matching.length > 0 ? matching : unused;
+  const pick = candidates[Math.floor(Math.random() * candidates.length)];
+  return pick && displayWord(pick.word);
+}
+
+// Select words based on custom word probability, enabled categories and the difficulty curve.
+// Choices are unique within a set and avoid the room's recent words while the pools allow.
+function selectWords(room: any, count: number): WordChoice[] {
+  const selectedWords: WordChoice[] = [];
+  const customWords = customWordPool(room);
+  const probability = room.customWordProbability || 0;
+  const categories: WordCategory[] = room.wordCategories || [];
+  const weights = room.difficultyWeights ?? presetWeights(DEFAULT_DIFFICULTY_PRESET);
+  const inThisSet = new Set<string>();
+
+  for (let i = 0; i < count; i++) {
+    const useCustom = customWords.length > 0 && Math.random() * 100 < probability;
+    const difficulty = rollDifficulty(weights);
+    const tiers = exclusionTiers(room, inThisSet);
+    let choice: WordChoice | undefined;
+
+    if (useCustom) {
+      // Pick from custom and pack words
+      for (const exclude of tiers) {
+        const word = pickCustomWord(customWords, difficulty, exclude);
+        if (word) {
+          choice = { word, category: 'custom' };
+          break;
+        }
+      }
+    }
+
+    if (!choice) {
+      // Pick from the room language's dictionary with the room's difficulty weights,
+      // leaving the enabled categories only once they are used up entirely
+      const pools = categories.length > 0 ? [categories, []] : [[]];
+      for (const pool of pools) {
+        for (const exclude of tiers) {
+          const pick = pickWord(difficulty, pool, room.language, exclude);
+          if (pick) {
+            choice = { word: displayWord(pick.entry), category: pick.category };
+            break;
+          }
+        }
+        if (choice) break;
+      }
+    }
+
+    // Small custom lists can run out of distinct words within a set
+    choice ??= useCustom
+      ? { word: displayWord(customWords[Math.floor(Math.random() * customWords.length)]?.word || 'default'), category: 'custom' }
+      : { word: 'default', category: null };
+
+    inThisSet.add(choice.word);
+    selectedWords.push(choice);
+  }
+
+  return selectedWords;
+}
+
+// Remember words so later turns and games in the room avoid them
+function recordUsedWords(room: any, words: string[]): void {
+  const fresh = words.filter(word => !room.usedWords?.includes(word));
+  room.usedWords = [...(room.usedWords ?? []), ...fresh].slice(-MAX_USED_WORDS);
+}
+
+function startTurn(io: Server, room: any) {
+  if (!hasPlayers(room)) return;
+
+  // Skip a drawer who dropped out during the intermission
+  if (!canDraw(getDrawer(room))) {
+    const next = getNextDrawerIndex(room, getDrawerIndex(room));
+    room.drawerIndex = next.index;
+    if (next.wrapped) {
+      room.round = (room.round || 1) + 1;
+    }
+  }
+
+  // Removing players can push the rotation past the last round
+  if ((room.round || 1) > (room.maxRounds || 3)) {
+    void finishGame(io, room);
+    return;
+  }
+
+  const drawer = getDrawer(room);
+  if (!drawer) return;
+
+  console.log(`[DRAWER DEBUG] Turn starting - Round ${room.round}, Selected drawer: ${drawer.name} (index: ${room.drawerIndex}), Total players: ${room.players.length}`);
+
+  // Generate word choices
+  const wordCount = room.wordCount || 3;
+  const wordChoices = selectWords(room, wordCount);
+  recordUsedWords(room, wordChoices.map(choice => choice.word));
+  offeredWords.set(room.roomId, wordChoices.map(choice => choice.word));
+
+  // Set timing (use room's drawTime setting)
+  const drawTime = room.drawTime || 60;
+  room.correctGuessers = [];
+  room.gameStarted = true;
+  room.turnEndsAt = new Date(Date.now() + (drawTime + 8) * 1000); // +8 for word selection
+
+  // Mark drawer on players array
+  const safeIdx = getDrawerIndex(room);
+  room.players = room.players.map((p: Player, idx: number) => ({
+    ...p,
+    isDrawer: idx === safeIdx,
+  }));
+
+  // Clear canvas for new turn
+  io.to(room.roomId).emit('clearCanvas');
+
+  // Sort players by score for display
+  const sortedPlayers = getActivePlayers(room).sort((a: Player, b: Player) => (b.score || 0) - (a.score || 0));
+
+  // Send word choices to drawer for selection (8 seconds) with current scores
+  io.to(drawer.id).emit('selectWord', { 
+    words: wordChoices.map(choice => choice.word),
+    categories: wordChoices.map(choice => choice.category),
+    timeLimit: 8,
+    scores: sortedPlayers.map((p: Player) => ({ name: p.name, score: p.score || 0, avatar: p.avatar }))
+  });
+
+  // Broadcast to others that drawer is selecting with current scores
+  io.to(room.roomId).emit('drawerSelecting', {
+    drawerId: drawer.id,
+    timeLimit: 8,
+    scores: sortedPlayers.map((p: Player) => ({ name: p.name, score: p.score || 0, avatar: p.avatar }))
+  });
+
+  // Wait for drawer to select or auto-select randomly after 8 seconds
+  const wordSelectionTimeout = setTimeout(async () => {
+    offeredWords.delete(room.roomId);
+    const freshRoom = await Room.findOne({ roomId: room.roomId });
+    if (!freshRoom || freshRoom.currentWord) return; // Already selected
+
+    // Auto-select random word if drawer didn't choose
+    const randomIndex = Math.floor(Math.random() * wordChoices.length);
+    const selectedWord = wordChoices[randomIndex]?.word || 'default';
+    freshRoom.currentWord = selectedWord;
+    await freshRoom.save();
+
+    startDrawingPhase(io, freshRoom, selectedWord, drawTime);
+  }, 8000);
+
+  // Store timeout reference
+  wordSelectionTimeouts.set(room.roomId, wordSelectionTimeout);
+
+  // Persist state
+  room.markModified?.('players');
+  void room.save();
+}
+
+// Start the actual drawing phase after word is selected
+function startDrawingPhase(io: Server, room: any, word: string, drawTime: number) {
+  const drawer = getDrawer(room);
+
+  // Reset round points and revealed letters for new turn
+  room.roundPoints = new Map();
+  room.guessTimes = new Map();
+  room.revealedLetters = [];
+  room.drawingStartedAt = new Date();
+
+  // Fresh canvas; the drawer numbers ops from 1 again
+  dropCanvas(room.roomId);
+  canvasStates.set(room.roomId, createCanvasState());
+  if (drawer) {
+    canvasDrawers.set(room.roomId, drawer.id);
+    io.in(drawer.id).socketsJoin(guessedRoom(room.roomId));
+  }
+  room.currentDrawing = [];
+  room.canvasSeq = 0;
+
+  // Start recording this turn's strokes
+  room.currentTurnId = generateTurnId();
+  turnRecordings.set(room.roomId, {
+    turnId: room.currentTurnId,
+    startedAt: room.drawingStartedAt.getTime(),
+    events: [],
+    truncated: false,
+  });
+
+  // Initial hint with no letters revealed
+  const hint = maskWord(word, room.revealedLetters);
+
+  // Mark drawer on players array
+  const safeIdx = getDrawerIndex(room);
+  room.players = room.players.map((p: Player, idx: number) => ({
+    ...p,
+    isDrawer: idx === safeIdx,
+  }));
+
+  // Broadcast start-of-drawing state
+  io.to(room.roomId).emit('gameStarted', {
+    drawerId: drawer?.id ?? null,
+    drawerTeam: room.teamMode ? drawer?.team ?? null : null,
+    wordHint: hint,
+    timeLeft: drawTime,
+    round: room.round,
+    maxRounds: room.maxRounds || 3,
+  });
+
+  // Send actual word to drawer only
+  if (drawer?.id) {
+    io.to(drawer.id).emit('yourWord', { word });
+  }
+
+  // Reset interval for this room - CRITICAL: Clear old timer first
+  const prev = roomIntervals.get(room.roomId);
+  if (prev) {
+    console.log(`[DRAWER DEBUG] Clearing previous timer for room ${room.roomId}`);
+    clearInterval(prev);
+    roomIntervals.delete(room.roomId);
+  }
+
+  // Calculate hint reveal times
+  const halfTime = Math.floor(drawTime / 2);
+  const firstHintTime = halfTime;
+  const secondHintTime = 15;
+
+  // Track hint reveals using closure
+  const hintState = {
+    firstRevealed: false,
+    secondRevealed: false,
+  };
+
+  const timer = setInterval(async () => {
+    try {
+      const r = await Room.findOne({ roomId: room.roomId });
+      if (!r || !r.currentWord) return;
+
+      const endsAt = r.turnEndsAt ? new Date(r.turnEndsAt).getTime() : 0;
+      const now = Date.now();
+      const secs = Math.max(0, Math.ceil((endsAt - now) / 1000));
+    
+    // Reveal first hint at half time
+    if (!hintState.firstRevealed && secs <= firstHintTime && secs > secondHintTime) {
+      hintState.firstRevealed = true;
+      const newIndices = getRevealIndices(r.currentWord, 1, r.revealedLetters);
+      r.revealedLetters = [...r.revealedLetters, ...newIndices];
+      const newHint = maskWord(r.currentWord, r.revealedLetters);
+      await r.save();
+      
+      io.to(room.roomId).emit('hintUpdate', { 
+        wordHint: newHint
+      });
+    }
+
+    // Reveal second hint at 15 seconds
+    if (!hintState.secondRevealed && secs <= secondHintTime) {
+      hintState.secondRevealed = true;
+      const newIndices = getRevealIndices(r.currentWord, 1, r.revealedLetters);
+      r.revealedLetters = [...r.revealedLetters, ...newIndices];
+      const newHint = maskWord(r.currentWord, r.revealedLetters);
+      await r.save();
+      
+      io.to(room.roomId).emit('hintUpdate', { 
+        wordHint: newHint
+      });
+    }
+
+    io.to(room.roomId).emit('tick', { timeLeft: secs });
+
+    // End when timer hits zero or all guessers (except drawer) finished
+    const everyoneGuessed = (r.correctGuessers?.length || 0) >= countEligibleGuessers(r);
+
+      if (secs <= 0 || everyoneGuessed) {
+        console.log(`[DRAWER DEBUG] Timer ending for room ${room.roomId} - Time: ${secs}s, Everyone guessed: ${everyoneGuessed}`);
+        clearInterval(timer);
+        roomIntervals.delete(room.roomId);
+        await endTurn(io, room.roomId);
+      }
+    } catch (error) {
+      console.error('Timer error for room', room.roomId, error);
+      // Continue running timer even if one iteration fails
+    }
+  }, ROOM_TICK_MS);
+
+  roomIntervals.set(room.roomId, timer);
+
+  // Persist state
+  room.markModified?.('players');
+  void room.save();
+}
+
+// ---------------------------------------------------------------------
+// Room entry helpers (shared by createRoom, joinRoom and quickMatch)
+// ---------------------------------------------------------------------
+interface JoiningPlayer {
+  name: string;            // Already validated display name
+  avatar?: number[];
+  sessionId?: string;
+  playerId?: string;       // Long-lived id from a previous visit
+  playerToken?: string;    // Secret issued with that id
+}
+
+async function createRoomForPlayer(socket: Socket, player: JoiningPlayer, options: { isPublic?: boolean; language?: string } = {}) {
+  const roomId = generateRoomId();
+  const playerSessionId = player.sessionId || generateSessionId();
+  const { playerId, playerToken } = await resolvePlayerId(player);
+  
+  const newRoom = new Room({
+    roomId,
+    players: [{ 
+      id: socket.id, 
+      sessionId: playerSessionId,
+      playerId,
+      name: player.name, 
+      score: 0, 
+      isDrawer: true, 
+      avatar: player.avatar || [0, 0, 0, 0],
+      isConnected: true,
+      lastSeen: new Date(),
+      joinedAt: new Date()
+    }],
+    hostSessionId: playerSessionId,
+    isPublic: options.isPublic ?? false,
+    language: options.language ?? DEFAULT_LANGUAGE,
+    gameStarted: false,
+    round: 1,
+    drawerIndex: 0,
+    maxRounds: 3,
+    correctGuessers: [],
+    chat: [],
+    drawTime: 60,
+    wordCount: 3,
+    customWords: [],
+    customWordProbability: 0,
+    roundPoints: new Map(),
+    revealedLetters: [],
+    currentDrawing: [],
+  });
+  await newRoom.save();
+
+  socket.join(roomId);
+  socket.emit('roomCreated', { 
+    roomId, 
+    playerId: socket.id, 
+    sessionId: playerSessionId,
+    profileId: playerId,
+    ...(playerToken ? { playerToken } : {}),
+    isHost: true,
+    hostId: playerSessionId
+  });
+  
+  // Ensure creator gets player list
+  const playerUpdate = { players: publicPlayers(newRoom.players) };
+  socket.emit('playerJoined', playerUpdate);
+  
+  console.log(`Room ${roomId} created by ${player.name}`);
+  return newRoom;
+}
+
+async function addPlayerToRoom(socket: Socket, room: any, player: JoiningPlayer) {
+  const roomId = room.roomId;
+  const playerSessionId = player.sessionId || generateSessionId();
+
+  // One entry per session: a session joining again takes over its old slot
+  const existing = room.players.find((p: Player) => p.sessionId === playerSessionId);
+  if (existing) {
+    existing.id = socket.id;
+    existing.isConnected = true;
+    existing.lastSeen = new Date();
+    cancelDisconnectRemoval(roomId, playerSessionId);
+    await room.save();
+  }
+
+  const alreadyIn = !!existing || room.players.some((p: Player) => p.id === socket.id);
+  let playerToken: string | undefined;
+  if (!alreadyIn) {
+    const resolved = await resolvePlayerId(player);
+    playerToken = resolved.playerToken;
+    const newPlayer = { 
+      id: socket.id, 
+      sessionId: playerSessionId,
+      playerId: resolved.playerId,
+      name: player.name, 
+      score: 0, 
+      avatar: player.avatar || [0, 0, 0, 0],
+      isConnected: true,
+      lastSeen: new Date(),
+      joinedAt: new Date()
+    };
+
+    // Late joiners start drawing next round
+    if (room.gameStarted) {
+      room.drawerIndex = insertLateJoiner(room.players, getDrawerIndex(room), newPlayer);
+    } else {
+      room.players.push(newPlayer);
+    }
+    if (room.teamMode) {
+      assignTeams(room);
+    }
+    await room.save();
+  }
+
+  socket.join(roomId);
+  const hostId = getHostSessionId(room);
+  const joined = room.players.find((p: Player) => p.sessionId === playerSessionId);
+  socket.emit('roomJoined', { 
+    roomId, 
+    sessionId: playerSessionId,
+    profileId: joined?.playerId,
+    ...(playerToken ? { playerToken } : {}),
+    isHost: hostId === playerSessionId,
+    hostId
+  });
+
+  // broadcast fresh player list with acknowledgment
+  const playerUpdate = { players: publicPlayers(room.players) };
+  io.to(roomId).emit('playerJoined', playerUpdate);
+  
+  // Also send directly to joining player as backup
+  socket.emit('playerJoined', playerUpdate);
+
+  // Mid-game joiners need the canvas, hint, timer and scores right away
+  if (room.gameStarted && joined) {
+    socket.emit('gameStateSync', buildGameState(room, joined));
+  }
+  
+  console.log(`[SESSION] ${player.name} joined ${roomId} (${playerSessionId})`);
+}
+
+// Password or invite check for players who are not already members.
+// Consumes one use of the invite token on success.
+async function checkRoomAccess(room: any, password?: string, inviteToken?: string): Promise<string | null> {
+  if (!room.passwordHash) return null;
+
+  if (inviteToken) {
+    const invite = room.inviteTokens.find((t: any) => t.token === inviteToken);
+    if (!invite || new Date(invite.expiresAt).getTime() < Date.now() || invite.uses >= invite.maxUses) {
+      return 'Invite link is invalid or has expired';
+    }
+    invite.uses += 1;
+    return null;
+  }
+
+  if (!password) return 'This room requires a password';
+  if (typeof password !== 'string' || !(await verifyPassword(password, room.passwordHash))) {
+    return 'Incorrect room password';
+  }
+  return null;
+}
+
+// Full snapshot used to sync reconnecting players and spectators
+function buildGameState(room: any, player: Player) {
+  const currentDrawer = getDrawer(room);
+  const timeLeft = room.turnEndsAt ? Math.max(0, Math.ceil((new Date(room.turnEndsAt).getTime() - Date.now()) / 1000)) : 0;
+  const knowsWord = player.sessionId === currentDrawer?.sessionId || room.correctGuessers?.includes(player.sessionId);
+  const visibleChat = (room.chat || []).filter((c: { channel?: ChatChannel }) =>
+    c.channel === 'guessed' ? knowsWord : player.isSpectator || c.channel !== 'spectators'
+  );
+  // Keyframe + tail so the client can continue applying drawDelta seqs
+  const canvas = canvasStates.get(room.roomId) ?? createCanvasState(room.currentDrawing ?? [], room.canvasSeq || 0);
+
+  return {
+    gameStarted: room.gameStarted,
+    round: room.round,
+    maxRounds: room.maxRounds,
+    timeLeft: timeLeft,
+    currentDrawer: currentDrawer && publicPlayers([currentDrawer])[0],
+    wordHint: room.gameStarted ? maskWord(room.currentWord || '', room.revealedLetters || []) : '',
+    isYourTurn: player.sessionId === currentDrawer?.sessionId,
+    currentDrawing: canvas.strokes,
+    canvas: getCanvasSync(canvas),
+    players: publicPlayers(room.players),
+    recentChat: visibleChat.slice(-10)
+  };
+}
+
+// Broadcast a chat line to its channel and append it to the room's history
+function sendChatMessage(roomId: string, item: { id: string; sessionId: string; name: string; msg: string }, channel: ChatChannel = 'all') {
+  const target = channel === 'spectators' ? spectatorRoom(roomId)
+    : channel === 'guessed' ? guessedRoom(roomId)
+    : roomId;
+  io.to(target).emit('chat', { ...item, channel });
+
+  // Save chat asynchronously
+  setImmediate(async () => {
+    try {
+      await Room.updateOne(
+        { roomId },
+        { 
+          $push: { 
+            chat: { 
+              $each: [{ ...item, channel, ts: new Date() }],
+              $slice: -50 // Keep only last 50 messages
+            }
+          },
+          lastActivity: new Date()
+        }
+      );
+    } catch (error) {
+      console.error('[CHAT] Failed to save message:', error);
+    }
+  });
+}
+
+// Public room that still has space and someone in it
+function isJoinablePublicRoom(room: any, sessionId?: string): boolean {
+  if (!room.isPublic) return false;
+  if (sessionId && room.bannedSessionIds?.includes(sessionId)) return false;
+  if (room.passwordHash) return false;
+  if (room.gameStarted && !room.allowLateJoin) return false;
+  if (getActivePlayers(room).length >= room.maxPlayers) return false;
+  return getConnectedPlayerCount(room) > 0;
+}
+
+// ---------------------------------------------------------------------
+// Socket connection setup function
+// ---------------------------------------------------------------------
+function setupSocketHandlers() {
+io.on('connection', (socket: Socket) => {
+  console.log('Player connected:', socket.id);
+
+  // -------------------------------------------------
+  // CREATE ROOM
+  // -------------------------------------------------
+  socket.on('createRoom', async ({ playerName, avatar, sessionId, playerId, playerToken }) => {
+    try {
+      if (await rejectBanned(socket, sessionId)) return;
+
+      // Validate player name
+      const cleanedName = moderateName(playerName);
+      if (!cleanedName) {
+        socket.emit('error', { message: 'Invalid name: inappropriate content' });
+        return;
+      }
+
+      await createRoomForPlayer(socket, { name: cleanedName, avatar, sessionId, playerId, playerToken });
+    } catch (err) {
+      socket.emit('error', { message: 'Failed to create room' });
+    }
+  });
+
+  // -------------------------------------------------
+  // UPDATE GAME SETTINGS (host only)
+  // -------------------------------------------------
+  socket.on('updateSettings', async ({ roomId, settings }) => {
+    try {
+      const room = await Room.findOne({ roomId });
+      if (!room) {
+        socket.emit('error', { message: 'Room not found' });
+        return;
+      }
+
+      if (!isHostSocket(room, socket.id)) {
+        reportForgedEvent(socket, 'updateSettings', roomId, 'not the host');
+        socket.emit('error', { message: 'Only the host can change settings' });
+        return;
+      }
+
+      if (room.gameStarted) {
+        socket.emit('error', { message: 'Cannot change settings during game' });
+        return;
+      }
+
+      // Update settings
+      room.maxRounds = Math.max(1, Math.min(10, settings.rounds || 3));
+      room.drawTime = Math.max(30, Math.min(180, settings.drawTime || 60));
+      room.wordCount = Math.max(3, Math.min(5, settings.wordCount || 3));
+      room.maxPlayers = Math.max(2, Math.min(15, settings.maxPlayers || 8));
       
-      io.to(room.roomId).emit('hintUpdate', { 
-        wordHint: newHint
+      // Parse custom words
+      const customWordsStr = settings.customWords || '';
+      room.customWords = customWordsStr
+        .split(',')
+        .map((w: string) => w.trim().toLowerCase())
+        .filter((w: string) => w.length > 0);
+      
+      room.customWordProbability = Math.max(0, Math.min(100, settings.customWordProbability || 0));
+
+      // Difficulty curve: a preset, adaptive, or the host's own weights
+      if (isDifficultyPreset(settings.difficulty)) {
+        const weights = settings.difficulty === 'custom' ? normalizeWeights(settings.difficultyWeights) : null;
+        if (settings.difficulty === 'custom' && weights) {
+          room.difficultyPreset = 'custom';
+          room.difficultyWeights = weights;
+        } else if (settings.difficulty !== 'custom' && settings.difficulty !== room.difficultyPreset) {
+          room.difficultyPreset = settings.difficulty;
+          room.recentGuessRates = [];
+          room.difficultyWeights = presetWeights(settings.difficulty);
+        }
+      }
+
+      // Enabled dictionary categories; none or all of them means no filter
+      if (Array.isArray(settings.categories)) {
+        const categories = CATEGORY_NAMES.filter(category => settings.categories.includes(category));
+        room.wordCategories = categories.length === CATEGORY_NAMES.length ? [] : categories;
+      }
+      room.isPublic = Boolean(settings.isPublic);
+      room.spectatorChatIsolated = Boolean(settings.spectatorChatIsolated);
+      room.allowLateJoin = settings.allowLateJoin !== false;
+      room.teamMode = Boolean(settings.teamMode);
+      room.teamCount = Math.max(2, Math.min(4, settings.teamCount || 2));
+      room.teamStealing = Boolean(settings.teamStealing);
+      if (room.teamMode) {
+        assignTeams(room);
+      }
+      if (isModerationLevel(settings.moderationLevel)) {
+        room.moderationLevel = settings.moderationLevel;
+      }
+      if (isSupportedLanguage(settings.language)) {
+        room.language = settings.language;
+      }
+
+      // Word packs by id, in addition to customWords; packs must be in the room's
+      // language, so a language change drops the ones in the old language
+      if (Array.isArray(settings.wordPacks) || room.wordPackIds.length > 0) {
+        const requested: unknown[] | undefined = Array.isArray(settings.wordPacks) ? settings.wordPacks : undefined;
+        const ids = [...new Set(requested ?? room.wordPackIds)];
+        if (ids.length > WORD_PACK_MAX_ATTACHED) {
+          socket.emit('error', { message: `A room can use up to ${WORD_PACK_MAX_ATTACHED} word packs` });
+          return;
+        }
+
+        const validIds = ids.filter((id): id is string => typeof id === 'string' && mongoose.isValidObjectId(id));
+        const packs = await WordPack.find({ _id: { $in: validIds }, language: room.language }).lean();
+        if (requested && packs.length !== ids.length) {
+          socket.emit('error', { message: 'Word pack not found or not in the room language' });
+          return;
+        }
+
+        const byId = new Map(packs.map(pack => [pack._id.toString(), pack]));
+        const attached = validIds.flatMap(id => byId.get(id) ?? []);
+        const seen = new Set<string>();
+        room.wordPackIds = attached.map(pack => pack._id.toString());
+        room.packWords = attached.flatMap(pack => pack.words).filter(w => {
+          const shown = displayWord(w.word);
+          if (seen.has(shown)) return false;
+          seen.add(shown);
+          return true;
+        });
+      }
+
+      // Password: omitted keeps the current one, empty string removes it
+      if (typeof settings.password === 'string') {
+        const password = settings.password.trim();
+        room.passwordHash = password ? await hashPassword(password) : undefined;
+        if (!password) {
+          room.inviteTokens = [];
+        }
+      }
+
+      await room.save();
+
+      // Broadcast updated settings to all players
+      io.to(roomId).emit('settingsUpdated', {
+        rounds: room.maxRounds,
+        drawTime: room.drawTime,
+        wordCount: room.wordCount,
+        customWords: room.customWords.join(', '),
+        customWordProbability: room.customWordProbability,
+        wordPacks: room.wordPackIds,
+        categories: room.wordCategories,
+        difficulty: room.difficultyPreset,
+        difficultyWeights: {
+          easy: room.difficultyWeights.easy,
+          medium: room.difficultyWeights.medium,
+          hard: room.difficultyWeights.hard,
+        },
+        maxPlayers: room.maxPlayers,
+        isPublic: room.isPublic,
+        hasPassword: !!room.passwordHash,
+        spectatorChatIsolated: room.spectatorChatIsolated,
+        allowLateJoin: room.allowLateJoin,
+        teamMode: room.teamMode,
+        teamCount: room.teamCount,
+        teamStealing: room.teamStealing,
+        moderationLevel: room.moderationLevel,
+        language: room.language,
+      });
+
+      if (room.teamMode) {
+        io.to(roomId).emit('teamsUpdated', { players: publicPlayers(room.players) });
+      }
+
+      console.log(`Settings updated for room ${roomId}`);
+    } catch (err) {
+      socket.emit('error', { message: 'Failed to update settings' });
+    }
+  });
+
+  // -------------------------------------------------
+  // JOIN ROOM
+  // -------------------------------------------------
+  socket.on('joinRoom', async ({ roomId, playerName, avatar, sessionId, playerId, playerToken, password, inviteToken }) => {
+    try {
+      const room = await Room.findOne({ roomId });
+      if (!room) {
+        socket.emit('error', { message: 'Room not found' });
+        return;
+      }
+
+      // Validate player name at the room's moderation level
+      const cleanedName = moderateName(playerName, room.moderationLevel, room.language);
+      if (!cleanedName) {
+        socket.emit('error', { message: 'Invalid name: inappropriate content' });
+        return;
+      }
+      if (sessionId && room.bannedSessionIds.includes(sessionId)) {
+        socket.emit('error', { message: 'You are banned from this room' });
+        return;
+      }
+      if (await rejectBanned(socket, sessionId)) return;
+
+      // Existing members skip the capacity and password checks, as with reconnectToRoom
+      const isMember = !!sessionId && room.players.some((p: Player) => p.sessionId === sessionId);
+      if (!isMember && getActivePlayers(room).length >= room.maxPlayers) {
+        socket.emit('error', { message: 'Room is full' });
+        return;
+      }
+      if (!isMember && room.gameStarted && !room.allowLateJoin) {
+        socket.emit('error', { message: 'Game already in progress' });
+        return;
+      }
+      if (!isMember && room.passwordHash) {
+        if (!checkRateLimit(`${getClientIp(socket)}:${roomId}`, joinRateLimit, JOIN_RATE_LIMIT, JOIN_RATE_WINDOW)) {
+          socket.emit('error', { message: 'Too many attempts! Please wait a moment.' });
+          return;
+        }
+
+        const accessError = await checkRoomAccess(room, password, inviteToken);
+        if (accessError) {
+          socket.emit('error', { message: accessError });
+          return;
+        }
+      }
+
+      await addPlayerToRoom(socket, room, { name: cleanedName, avatar, sessionId, playerId, playerToken });
+    } catch (err) {
+      socket.emit('error', { message: 'Failed to join room' });
+    }
+  });
+
+  // -------------------------------------------------
+  // JOIN AS SPECTATOR
+  // -------------------------------------------------
+  socket.on('joinAsSpectator', async ({ roomId, playerName, avatar, sessionId, password, inviteToken }) => {
+    try {
+      const room = await Room.findOne({ roomId });
+      if (!room) {
+        socket.emit('error', { message: 'Room not found' });
+        return;
+      }
+
+      const cleanedName = moderateName(playerName, room.moderationLevel, room.language);
+      if (!cleanedName) {
+        socket.emit('error', { message: 'Invalid name: inappropriate content' });
+        return;
+      }
+      if (sessionId && room.bannedSessionIds.includes(sessionId)) {
+        socket.emit('error', { message: 'You are banned from this room' });
+        return;
+      }
+      if (await rejectBanned(socket, sessionId)) return;
+      if (sessionId && room.players.some((p: Player) => p.sessionId === sessionId)) {
+        socket.emit('error', { message: 'Already in this room, reconnect instead' });
+        return;
+      }
+      if (room.players.filter(p => p.isSpectator).length >= MAX_SPECTATORS) {
+        socket.emit('error', { message: 'Too many spectators' });
+        return;
+      }
+
+      if (room.passwordHash) {
+        if (!checkRateLimit(`${getClientIp(socket)}:${roomId}`, joinRateLimit, JOIN_RATE_LIMIT, JOIN_RATE_WINDOW)) {
+          socket.emit('error', { message: 'Too many attempts! Please wait a moment.' });
+          return;
+        }
+
+        const accessError = await checkRoomAccess(room, password, inviteToken);
+        if (accessError) {
+          socket.emit('error', { message: accessError });
+          return;
+        }
+      }
+
+      const spectatorSessionId = sessionId || generateSessionId();
+      room.players.push({
+        id: socket.id,
+        sessionId: spectatorSessionId,
+        name: cleanedName,
+        score: 0,
+        avatar: avatar || [0, 0, 0, 0],
+        isConnected: true,
+        lastSeen: new Date(),
+        joinedAt: new Date(),
+        isSpectator: true,
+      });
+      await room.save();
+
+      const spectator = room.players.find(p => p.sessionId === spectatorSessionId)!;
+      socket.join(roomId);
+      socket.join(spectatorRoom(roomId));
+
+      socket.emit('spectatorJoined', {
+        roomId,
+        sessionId: spectatorSessionId,
+        hostId: getHostSessionId(room),
+        gameState: buildGameState(room, spectator),
+      });
+
+      io.to(roomId).emit('playerJoined', { players: publicPlayers(room.players) });
+      console.log(`[SESSION] ${cleanedName} is spectating ${roomId} (${spectatorSessionId})`);
+    } catch (err) {
+      socket.emit('error', { message: 'Failed to join as spectator' });
+    }
+  });
+
+  // -------------------------------------------------
+  // QUICK MATCH – fullest joinable public room, or a new one
+  // -------------------------------------------------
+  socket.on('quickMatch', async ({ playerName, avatar, sessionId, playerId, playerToken, language: requestedLanguage }) => {
+    try {
+      if (await rejectBanned(socket, sessionId)) return;
+
+      const language = isSupportedLanguage(requestedLanguage) ? requestedLanguage : undefined;
+      const cleanedName = moderateName(playerName, undefined, language);
+      if (!cleanedName) {
+        socket.emit('error', { message: 'Invalid name: inappropriate content' });
+        return;
+      }
+
+      const candidates = await Room.find({
+        isPublic: true,
+        ...(language ? { language } : {}),
+      });
+      const best = candidates
+        .filter(room => isJoinablePublicRoom(room, sessionId))
+        .sort((a, b) => getConnectedPlayerCount(b) - getConnectedPlayerCount(a))[0];
+
+      if (best) {
+        await addPlayerToRoom(socket, best, { name: cleanedName, avatar, sessionId, playerId, playerToken });
+      } else {
+        await createRoomForPlayer(socket, { name: cleanedName, avatar, sessionId, playerId, playerToken }, {
+          isPublic: true,
+          ...(language ? { language } : {}),
+        });
+      }
+    } catch (err) {
+      socket.emit('error', { message: 'Failed to find a match' });
+    }
+  });
+
+  // -------------------------------------------------
+  // RECONNECTION HANDLER
+  // -------------------------------------------------
+  socket.on('reconnectToRoom', async ({ sessionId, roomId }) => {
+    try {
+      // Check if database is connected
+      if (!dbConnected) {
+        console.log(`[SESSION] Database not ready, rejecting reconnection for ${sessionId}`);
+        socket.emit('error', { message: 'Server not ready, please try again' });
+        return;
+      }
+
+      console.log(`[SESSION] Reconnection attempt - Session ${sessionId} to room ${roomId}`);
+      
+      const room = await Room.findOne({ roomId });
+      if (!room) {
+        socket.emit('error', { message: 'Room not found' });
+        return;
+      }
+
+      if (room.bannedSessionIds.includes(sessionId)) {
+        socket.emit('error', { message: 'You are banned from this room' });
+        return;
+      }
+      if (await rejectBanned(socket, sessionId)) return;
+
+      // Find player by session ID
+      const player = room.players.find((p: Player) => p.sessionId === sessionId);
+      if (!player) {
+        socket.emit('error', { message: 'Session not found in room' });
+        return;
+      }
+
+      // Update player's socket ID and connection status
+      player.id = socket.id;
+      player.isConnected = true;
+      player.lastSeen = new Date();
+      await room.save();
+
+      // Join socket to room
+      socket.join(roomId);
+
+      cancelDisconnectRemoval(roomId, sessionId);
+
+      // A returning drawer keeps drawing from the new socket
+      const isDrawer = getDrawer(room)?.sessionId === sessionId;
+      if (canvasDrawers.has(roomId) && isDrawer) {
+        canvasDrawers.set(roomId, socket.id);
+      }
+
+      // Back into the guessed channel if the player knows the word
+      if (room.gameStarted && room.currentWord && (isDrawer || room.correctGuessers.includes(sessionId))) {
+        socket.join(guessedRoom(roomId));
+      }
+
+      // Returning host keeps the role
+      const hostId = getHostSessionId(room);
+      if (hostId === sessionId) {
+        cancelHostMigration(roomId);
+      }
+
+      if (player.isSpectator) {
+        socket.join(spectatorRoom(roomId));
+      }
+
+      // Send complete game state for synchronization
+      const isHost = hostId === sessionId;
+      const gameState = buildGameState(room, player);
+
+      socket.emit('reconnectionSuccess', {
+        roomId,
+        sessionId,
+        isHost,
+        hostId,
+        player: player,
+        gameState
+      });
+
+      // Restart turn timer if game is active and no timer exists
+      if (room.gameStarted && room.turnEndsAt && !roomIntervals.has(roomId)) {
+        console.log(`[SESSION] Restarting timer for room ${roomId}`);
+        
+        const timer = setInterval(async () => {
+          try {
+            const r = await Room.findOne({ roomId: room.roomId });
+            if (!r || !r.gameStarted || !r.turnEndsAt) {
+              clearInterval(timer);
+              roomIntervals.delete(room.roomId);
+              return;
+            }
+
+            const secs = Math.max(0, Math.ceil((new Date(r.turnEndsAt).getTime() - Date.now()) / 1000));
+            
+            // Broadcast time update
+            io.to(room.roomId).emit('tick', { timeLeft: secs });
+
+            // Check if everyone guessed correctly
+            const everyoneGuessed = (r.correctGuessers?.length || 0) >= countEligibleGuessers(r);
+
+            if (secs <= 0 || everyoneGuessed) {
+              clearInterval(timer);
+              roomIntervals.delete(room.roomId);
+              await endTurn(io, room.roomId);
+            }
+          } catch (error) {
+            console.error('[TIMER] Error in reconnected timer:', error);
+            clearInterval(timer);
+            roomIntervals.delete(room.roomId);
+          }
+        }, 1000);
+
+        roomIntervals.set(room.roomId, timer);
+      }
+
+      // Notify other players about reconnection
+      socket.to(roomId).emit('playerReconnected', { 
+        playerName: player.name,
+        playerId: player.sessionId
       });
+
+      // Send updated player list
+      io.to(roomId).emit('playerJoined', { players: publicPlayers(room.players) });
+
+      console.log(`[SESSION] ${player.name} reconnected to ${roomId} successfully`);
+    } catch (err) {
+      console.error('[SESSION] Reconnection error:', err);
+      socket.emit('error', { message: 'Failed to reconnect' });
     }
+  });
 
-    // Reveal second hint at 15 seconds
-    if (!hintState.secondRevealed && secs <= secondHintTime) {
-      hintState.secondRevealed = true;
-      const newIndices = getRevealIndices(r.currentWord, 1, r.revealedLetters);
-      r.revealedLetters = [...r.revealedLetters, ...newIndices];
-      const newHint = maskWord(r.currentWord, r.revealedLetters);
-      await r.save();
-      
-      io.to(room.roomId).emit('hintUpdate', { 
-        wordHint: newHint
-      });
+  // -------------------------------------------------
+  // WORD SELECTION (drawer only)
+  // -------------------------------------------------
+  socket.on('wordSelected', async ({ roomId, word }) => {
+    try {
+      const room = await Room.findOne({ roomId });
+      if (!room || !room.gameStarted) return;
+
+      const drawer = getDrawer(room);
+      if (!drawer || drawer.id !== socket.id) {
+        reportForgedEvent(socket, 'wordSelected', roomId, 'not the drawer');
+        return;
+      }
+
+      // Only one of the words offered this turn, and only once
+      const offered = offeredWords.get(roomId);
+      if (!offered) return; // Already picked, or picked for them on timeout
+      if (!offered.includes(word)) {
+        reportForgedEvent(socket, 'wordSelected', roomId, 'word not offered');
+        return;
+      }
+      offeredWords.delete(roomId);
+
+      // Clear word selection timeout
+      const timeout = wordSelectionTimeouts.get(roomId);
+      if (timeout) {
+        clearTimeout(timeout);
+        wordSelectionTimeouts.delete(roomId);
+      }
+
+      // Set the selected word
+      room.currentWord = word;
+      recordUsedWords(room, [word]);
+      const drawTime = room.drawTime || 60;
+      room.turnEndsAt = new Date(Date.now() + drawTime * 1000);
+      await room.save();
+
+      startDrawingPhase(io, room, word, drawTime);
+    } catch (err) {
+      socket.emit('error', { message: 'Failed to select word' });
     }
+  });
 
-    io.to(room.roomId).emit('tick', { timeLeft: secs });
+  // -------------------------------------------------
+  // START GAME (host only, 2+ players)
+  // -------------------------------------------------
+  socket.on('startGame', async ({ roomId }) => {
+    try {
+      const room = await Room.findOne({ roomId });
+      if (!room) {
+        socket.emit('error', { message: 'Room not found' });
+        return;
+      }
 
-    // End when timer hits zero or all guessers (except drawer) finished
-    const everyoneGuessed = (r.correctGuessers?.length || 0) >= Math.max(0, (r.players.length - 1));
+      if (!isHostSocket(room, socket.id)) {
+        reportForgedEvent(socket, 'startGame', roomId, 'not the host');
+        socket.emit('error', { message: 'Only the host can start' });
+        return;
+      }
 
-      if (secs <= 0 || everyoneGuessed) {
-        console.log(`[DRAWER DEBUG] Timer ending for room ${room.roomId} - Time: ${secs}s, Everyone guessed: ${everyoneGuessed}`);
-        clearInterval(timer);
-        roomIntervals.delete(room.roomId);
-        await endTurn(io, room.roomId);
+      if (getActivePlayers(room).length < 2) {
+        socket.emit('error', { message: 'Need 2+ players' });
+        return;
       }
-    } catch (error) {
-      console.error('Timer error for room', room.roomId, error);
-      // Continue running timer even if one iteration fails
+
+      if (room.gameStarted) return;
+
+      if (room.teamMode) {
+        assignTeams(room);
+        const minTeamSize = room.teamStealing ? 1 : 2;
+        const teamSizes = Array.from({ length: room.teamCount }, (_, team) =>
+          getActivePlayers(room).filter(p => p.team === team && p.isConnected).length
+        );
+        if (teamSizes.some(size => size < minTeamSize)) {
+          socket.emit('error', { message: `Each team needs ${minTeamSize}+ players` });
+          return;
+        }
+      }
+
+      // Scores from a previous game in this room must not carry over into
+      // stats, leaderboards or match history
+      for (const player of room.players) {
+        player.score = 0;
+      }
+      room.roundPoints = new Map();
+
+      room.round = 1;
+      room.drawerIndex = getDrawOrder(room)[0] ?? 0;
+      room.gameStartedAt = new Date();
+      room.turnHistory = [];
+      await room.save();
+
+      console.log(`[DRAWER DEBUG] Game starting - Players: [${room.players.map((p, i) => `${i}:${p.name}`).join(', ')}], Initial drawerIndex: ${room.drawerIndex}`);
+      
+      startTurn(io, room);
+    } catch (err) {
+      socket.emit('error', { message: 'Failed to start game' });
     }
-  }, ROOM_TICK_MS);
+  });
 
-  roomIntervals.set(room.roomId, timer);
+  // -------------------------------------------------
+  // TRANSFER HOST (host only)
+  // -------------------------------------------------
+  socket.on('transferHost', async ({ roomId, targetSessionId }) => {
+    try {
+      const room = await Room.findOne({ roomId });
+      if (!room) {
+        socket.emit('error', { message: 'Room not found' });
+        return;
+      }
 
-  // Persist state
-  room.markModified?.('players');
-  void room.save();
-}
+      if (!isHostSocket(room, socket.id)) {
+        reportForgedEvent(socket, 'transferHost', roomId, 'not the host');
+        socket.emit('error', { message: 'Only the host can transfer host' });
+        return;
+      }
 
-// ---------------------------------------------------------------------
-// Socket connection setup function
-// ---------------------------------------------------------------------
-function setupSocketHandlers() {
-io.on('connection', (socket: Socket) => {
-  console.log('Player connected:', socket.id);
+      const target = room.players.find((p: Player) => p.sessionId === targetSessionId);
+      if (!target || !target.isConnected) {
+        socket.emit('error', { message: 'Player not available' });
+        return;
+      }
+
+      if (target.sessionId === room.hostSessionId) return;
+
+      room.hostSessionId = target.sessionId;
+      await room.save();
+      cancelHostMigration(roomId);
+
+      console.log(`[HOST] Host of ${roomId} transferred to ${target.name} (${target.sessionId})`);
+      emitHostChanged(io, roomId, target);
+    } catch (err) {
+      socket.emit('error', { message: 'Failed to transfer host' });
+    }
+  });
 
   // -------------------------------------------------
-  // CREATE ROOM
+  // CREATE INVITE (host only)
   // -------------------------------------------------
-  socket.on('createRoom', async ({ playerName, avatar, sessionId }) => {
+  socket.on('createInvite', async ({ roomId, expiresInMinutes, maxUses }) => {
     try {
-      // Validate player name
-      const cleanedName = validateMessage(playerName);
-      if (!cleanedName) {
-        socket.emit('error', { message: 'Invalid name: inappropriate content' });
+      const room = await Room.findOne({ roomId });
+      if (!room) {
+        socket.emit('error', { message: 'Room not found' });
         return;
       }
 
-      const roomId = generateRoomId();
-      const playerSessionId = sessionId || generateSessionId();
-      
-      const newRoom = new Room({
-        roomId,
-        players: [{ 
-          id: socket.id, 
-          sessionId: playerSessionId,
-          name: cleanedName, 
-          score: 0, 
-          isDrawer: true, 
-          avatar: avatar || [0, 0, 0, 0],
-          isConnected: true,
-          lastSeen: new Date()
-        }],
-        gameStarted: false,
-        round: 1,
-        drawerIndex: 0,
-        maxRounds: 3,
-        correctGuessers: [],
-        chat: [],
-        drawTime: 60,
-        wordCount: 3,
-        customWords: [],
-        customWordProbability: 0,
-        roundPoints: new Map(),
-        revealedLetters: [],
-        currentDrawing: [],
-      });
-      await newRoom.save();
+      if (!isHostSocket(room, socket.id)) {
+        reportForgedEvent(socket, 'createInvite', roomId, 'not the host');
+        socket.emit('error', { message: 'Only the host can create invites' });
+        return;
+      }
 
-      socket.join(roomId);
-      socket.emit('roomCreated', { 
-        roomId, 
-        playerId: socket.id, 
-        sessionId: playerSessionId,
-        isHost: true 
+      const minutes = Math.max(1, Math.min(INVITE_MAX_MINUTES, expiresInMinutes || INVITE_DEFAULT_MINUTES));
+      const uses = Math.max(1, Math.min(INVITE_MAX_USES, maxUses || INVITE_DEFAULT_USES));
+      const invite = {
+        token: generateInviteToken(),
+        expiresAt: new Date(Date.now() + minutes * 60 * 1000),
+        maxUses: uses,
+        uses: 0,
+        createdBy: getHostSessionId(room) ?? '',
+      };
+
+      // Drop spent invites while we are here
+      room.inviteTokens = [
+        ...room.inviteTokens.filter(t => t.expiresAt.getTime() > Date.now() && t.uses < t.maxUses),
+        invite,
+      ];
+      await room.save();
+
+      socket.emit('inviteCreated', {
+        roomId,
+        token: invite.token,
+        expiresAt: invite.expiresAt,
+        maxUses: invite.maxUses,
       });
-      
-      // Ensure creator gets player list
-      const playerUpdate = { players: newRoom.players };
-      socket.emit('playerJoined', playerUpdate);
-      
-      console.log(`Room ${roomId} created by ${playerName}`);
     } catch (err) {
-      socket.emit('error', { message: 'Failed to create room' });
+      socket.emit('error', { message: 'Failed to create invite' });
     }
   });
 
   // -------------------------------------------------
-  // UPDATE GAME SETTINGS (creator only)
+  // TEAMS (host only, lobby only)
   // -------------------------------------------------
-  socket.on('updateSettings', async ({ roomId, settings }) => {
+  socket.on('assignTeam', async ({ roomId, targetSessionId, team }) => {
     try {
       const room = await Room.findOne({ roomId });
       if (!room) {
@@ -712,540 +3024,614 @@ io.on('connection', (socket: Socket) => {
         return;
       }
 
-      const creatorId = room.players[0]?.id;
-      if (!creatorId || creatorId !== socket.id) {
-        socket.emit('error', { message: 'Only creator can change settings' });
+      if (!isHostSocket(room, socket.id)) {
+        reportForgedEvent(socket, 'assignTeam', roomId, 'not the host');
+        socket.emit('error', { message: 'Only the host can assign teams' });
         return;
       }
 
-      if (room.gameStarted) {
-        socket.emit('error', { message: 'Cannot change settings during game' });
+      if (!room.teamMode || room.gameStarted) {
+        socket.emit('error', { message: 'Teams can only be changed in a team lobby' });
         return;
       }
 
-      // Update settings
-      room.maxRounds = settings.rounds || 3;
-      room.drawTime = Math.max(30, Math.min(180, settings.drawTime || 60));
-      room.wordCount = Math.max(3, Math.min(5, settings.wordCount || 3));
-      room.maxPlayers = Math.max(2, Math.min(15, settings.maxPlayers || 8));
-      
-      // Parse custom words
-      const customWordsStr = settings.customWords || '';
-      room.customWords = customWordsStr
-        .split(',')
-        .map((w: string) => w.trim().toLowerCase())
-        .filter((w: string) => w.length > 0);
-      
-      room.customWordProbability = Math.max(0, Math.min(100, settings.customWordProbability || 0));
+      const target = room.players.find((p: Player) => p.sessionId === targetSessionId);
+      if (!target || target.isSpectator) {
+        socket.emit('error', { message: 'Player not found' });
+        return;
+      }
+      if (!Number.isInteger(team) || team < 0 || team >= room.teamCount) {
+        socket.emit('error', { message: 'Invalid team' });
+        return;
+      }
 
+      target.team = team;
+      room.markModified('players');
       await room.save();
 
-      // Broadcast updated settings to all players
-      io.to(roomId).emit('settingsUpdated', {
-        rounds: room.maxRounds,
-        drawTime: room.drawTime,
-        wordCount: room.wordCount,
-        customWords: room.customWords.join(', '),
-        customWordProbability: room.customWordProbability,
-        maxPlayers: room.maxPlayers,
+      io.to(roomId).emit('teamsUpdated', { players: publicPlayers(room.players) });
+    } catch (err) {
+      socket.emit('error', { message: 'Failed to assign team' });
+    }
+  });
+
+  socket.on('shuffleTeams', async ({ roomId }) => {
+    try {
+      const room = await Room.findOne({ roomId });
+      if (!room) {
+        socket.emit('error', { message: 'Room not found' });
+        return;
+      }
+
+      if (!isHostSocket(room, socket.id)) {
+        reportForgedEvent(socket, 'shuffleTeams', roomId, 'not the host');
+        socket.emit('error', { message: 'Only the host can assign teams' });
+        return;
+      }
+
+      if (!room.teamMode || room.gameStarted) {
+        socket.emit('error', { message: 'Teams can only be changed in a team lobby' });
+        return;
+      }
+
+      assignTeams(room, true);
+      await room.save();
+
+      io.to(roomId).emit('teamsUpdated', { players: publicPlayers(room.players) });
+    } catch (err) {
+      socket.emit('error', { message: 'Failed to shuffle teams' });
+    }
+  });
+
+  // -------------------------------------------------
+  // LEAVE ROOM
+  // -------------------------------------------------
+  socket.on('leaveRoom', async ({ roomId }) => {
+    try {
+      const room = await Room.findOne({ roomId });
+      if (!room) return;
+
+      const player = room.players.find((p: Player) => p.id === socket.id);
+      if (!player) {
+        reportForgedEvent(socket, 'leaveRoom', roomId, 'not in room');
+        return;
+      }
+
+      const removed = await removePlayerFromRoom(io, roomId, player.sessionId);
+      if (!removed) return;
+
+      socket.emit('leftRoom', { roomId });
+      io.to(roomId).emit('playerLeft', {
+        playerId: removed.sessionId,
+        playerName: removed.name,
+        reason: 'left',
       });
 
-      console.log(`Settings updated for room ${roomId}`);
+      console.log(`[SESSION] ${removed.name} left ${roomId}`);
     } catch (err) {
-      socket.emit('error', { message: 'Failed to update settings' });
+      socket.emit('error', { message: 'Failed to leave room' });
     }
   });
 
   // -------------------------------------------------
-  // JOIN ROOM
+  // KICK PLAYER (host only)
   // -------------------------------------------------
-  socket.on('joinRoom', async ({ roomId, playerName, avatar, sessionId }) => {
+  socket.on('kickPlayer', async ({ roomId, targetSessionId }) => {
     try {
-      // Validate player name
-      const cleanedName = validateMessage(playerName);
-      if (!cleanedName) {
-        socket.emit('error', { message: 'Invalid name: inappropriate content' });
+      const room = await Room.findOne({ roomId });
+      if (!room) {
+        socket.emit('error', { message: 'Room not found' });
+        return;
+      }
+
+      if (!isHostSocket(room, socket.id)) {
+        reportForgedEvent(socket, 'kickPlayer', roomId, 'not the host');
+        socket.emit('error', { message: 'Only the host can kick players' });
+        return;
+      }
+
+      const target = room.players.find((p: Player) => p.sessionId === targetSessionId);
+      if (!target) {
+        socket.emit('error', { message: 'Player not found' });
+        return;
+      }
+      if (target.id === socket.id) {
+        socket.emit('error', { message: 'You cannot kick yourself' });
         return;
       }
 
+      await kickPlayer(io, roomId, target.sessionId, 'host');
+    } catch (err) {
+      socket.emit('error', { message: 'Failed to kick player' });
+    }
+  });
+
+  // -------------------------------------------------
+  // VOTE KICK (majority of connected players)
+  // -------------------------------------------------
+  socket.on('voteKick', async ({ roomId, targetSessionId }) => {
+    try {
       const room = await Room.findOne({ roomId });
       if (!room) {
         socket.emit('error', { message: 'Room not found' });
         return;
       }
-      if (room.players.length >= room.maxPlayers) {
-        socket.emit('error', { message: 'Room is full' });
+
+      const voter = room.players.find((p: Player) => p.id === socket.id);
+      if (!voter) {
+        reportForgedEvent(socket, 'voteKick', roomId, 'not in room');
+        socket.emit('error', { message: 'Player not found' });
+        return;
+      }
+
+      const target = room.players.find((p: Player) => p.sessionId === targetSessionId);
+      if (!target) {
+        socket.emit('error', { message: 'Player not found' });
+        return;
+      }
+      if (voter.sessionId === target.sessionId) {
+        socket.emit('error', { message: 'You cannot vote to kick yourself' });
+        return;
+      }
+
+      const eligible = room.players.filter(p => p.isConnected && !p.isSpectator && p.sessionId !== target.sessionId);
+      if (eligible.length + 1 < VOTE_KICK_MIN_PLAYERS) {
+        socket.emit('error', { message: 'Not enough players to start a vote' });
         return;
       }
 
-      const playerSessionId = sessionId || generateSessionId();
-      const alreadyIn = room.players.some((p: Player) => p.id === socket.id);
-      if (!alreadyIn) {
-        room.players.push({ 
-          id: socket.id, 
-          sessionId: playerSessionId,
-          name: cleanedName, 
-          score: 0, 
-          avatar: avatar || [0, 0, 0, 0],
-          isConnected: true,
-          lastSeen: new Date()
-        });
-        await room.save();
+      let roomVotes = voteKicks.get(roomId);
+      if (!roomVotes) {
+        roomVotes = new Map();
+        voteKicks.set(roomId, roomVotes);
       }
 
-      socket.join(roomId);
-      const isHost = room.players[0]?.sessionId === playerSessionId;
-      socket.emit('roomJoined', { 
-        roomId, 
-        sessionId: playerSessionId,
-        isHost 
+      let vote = roomVotes.get(target.sessionId);
+      if (!vote || Date.now() > vote.expiresAt) {
+        vote = { voters: new Set(), expiresAt: Date.now() + VOTE_KICK_WINDOW_MS };
+        roomVotes.set(target.sessionId, vote);
+      }
+      vote.voters.add(voter.sessionId);
+
+      // Only count voters who are still here
+      const eligibleIds = new Set(eligible.map(p => p.sessionId));
+      const votes = [...vote.voters].filter(id => eligibleIds.has(id)).length;
+      const required = Math.floor(eligible.length / 2) + 1;
+
+      io.to(roomId).emit('voteKickUpdate', {
+        targetId: target.sessionId,
+        targetName: target.name,
+        votes,
+        required,
       });
 
-      // broadcast fresh player list with acknowledgment
-      const playerUpdate = { players: room.players };
-      io.to(roomId).emit('playerJoined', playerUpdate);
-      
-      // Also send directly to joining player as backup
-      socket.emit('playerJoined', playerUpdate);
-      
-      console.log(`[SESSION] ${cleanedName} joined ${roomId} (${playerSessionId})`);
+      if (votes >= required) {
+        roomVotes.delete(target.sessionId);
+        await kickPlayer(io, roomId, target.sessionId, 'vote');
+      }
     } catch (err) {
-      socket.emit('error', { message: 'Failed to join room' });
+      socket.emit('error', { message: 'Failed to vote' });
     }
   });
 
   // -------------------------------------------------
-  // RECONNECTION HANDLER
+  // REPORT PLAYER (reviewed through the admin API)
   // -------------------------------------------------
-  socket.on('reconnectToRoom', async ({ sessionId, roomId }) => {
+  socket.on('reportPlayer', async ({ roomId, targetSessionId, reason, details }) => {
     try {
-      // Check if database is connected
-      if (!dbConnected) {
-        console.log(`[SESSION] Database not ready, rejecting reconnection for ${sessionId}`);
-        socket.emit('error', { message: 'Server not ready, please try again' });
-        return;
-      }
-
-      console.log(`[SESSION] Reconnection attempt - Session ${sessionId} to room ${roomId}`);
-      
       const room = await Room.findOne({ roomId });
       if (!room) {
         socket.emit('error', { message: 'Room not found' });
         return;
       }
 
-      // Find player by session ID
-      const player = room.players.find((p: Player) => p.sessionId === sessionId);
-      if (!player) {
-        socket.emit('error', { message: 'Session not found in room' });
+      const reporter = room.players.find((p: Player) => p.id === socket.id);
+      if (!reporter) {
+        reportForgedEvent(socket, 'reportPlayer', roomId, 'not in room');
         return;
       }
 
-      // Update player's socket ID and connection status
-      player.id = socket.id;
-      player.isConnected = true;
-      player.lastSeen = new Date();
-      await room.save();
-
-      // Join socket to room
-      socket.join(roomId);
+      const target = room.players.find((p: Player) => p.sessionId === targetSessionId);
+      if (!target) {
+        socket.emit('error', { message: 'Player not found' });
+        return;
+      }
+      if (target.sessionId === reporter.sessionId) {
+        socket.emit('error', { message: 'You cannot report yourself' });
+        return;
+      }
+      if (!REPORT_REASONS.includes(reason)) {
+        socket.emit('error', { message: `Reason must be one of ${REPORT_REASONS.join(', ')}` });
+        return;
+      }
 
-      // Send complete game state for synchronization
-      const isHost = room.players[0]?.sessionId === sessionId;
-      const currentDrawer = getDrawer(room);
-      const timeLeft = room.turnEndsAt ? Math.max(0, Math.ceil((new Date(room.turnEndsAt).getTime() - Date.now()) / 1000)) : 0;
-      
-      const gameState = {
-        gameStarted: room.gameStarted,
-        round: room.round,
-        maxRounds: room.maxRounds,
-        timeLeft: timeLeft,
-        currentDrawer: currentDrawer,
-        wordHint: room.gameStarted ? maskWord(room.currentWord || '', room.revealedLetters || []) : '',
-        isYourTurn: player.sessionId === currentDrawer?.sessionId,
-        currentDrawing: room.currentDrawing || [],
-        players: room.players,
-        recentChat: room.chat.slice(-10) || []
-      };
+      const key = `${roomId}:${reporter.sessionId}:${target.sessionId}`;
+      const lastReport = reportCooldowns.get(key) ?? 0;
+      if (Date.now() - lastReport < REPORT_COOLDOWN_MS) {
+        socket.emit('error', { message: 'You already reported this player recently' });
+        return;
+      }
+      reportCooldowns.set(key, Date.now());
 
-      socket.emit('reconnectionSuccess', {
+      // Evidence: the target's recent chat and the canvas as it is now
+      const canvas = await loadCanvas(roomId);
+      const targetSocket = target.isConnected ? io.sockets.sockets.get(target.id) : undefined;
+      const report = await Report.create({
         roomId,
-        sessionId,
-        isHost,
-        player: player,
-        gameState
+        reporterSessionId: reporter.sessionId,
+        reporterName: reporter.name,
+        reportedSessionId: target.sessionId,
+        ...(target.playerId ? { reportedPlayerId: target.playerId } : {}),
+        reportedName: target.name,
+        ...(targetSocket ? { reportedIp: getClientIp(targetSocket) } : {}),
+        reason: reason as ReportReason,
+        details: typeof details === 'string' ? details.trim().slice(0, REPORT_DETAILS_MAX) : '',
+        chat: recentChatOf(room.chat, target),
+        drawing: canvas?.strokes ?? room.currentDrawing,
+        ...(room.currentWord ? { word: room.currentWord } : {}),
       });
 
-      // Restart turn timer if game is active and no timer exists
-      if (room.gameStarted && room.turnEndsAt && !roomIntervals.has(roomId)) {
-        console.log(`[SESSION] Restarting timer for room ${roomId}`);
-        
-        const timer = setInterval(async () => {
-          try {
-            const r = await Room.findOne({ roomId: room.roomId });
-            if (!r || !r.gameStarted || !r.turnEndsAt) {
-              clearInterval(timer);
-              roomIntervals.delete(room.roomId);
-              return;
-            }
-
-            const secs = Math.max(0, Math.ceil((new Date(r.turnEndsAt).getTime() - Date.now()) / 1000));
-            
-            // Broadcast time update
-            io.to(room.roomId).emit('tick', { timeLeft: secs });
-
-            // Check if everyone guessed correctly
-            const drawer = getDrawer(r);
-            const connectedNonDrawers = r.players.filter(p => p.isConnected && p.sessionId !== drawer?.sessionId).length;
-            const everyoneGuessed = (r.correctGuessers?.length || 0) >= connectedNonDrawers;
-
-            if (secs <= 0 || everyoneGuessed) {
-              clearInterval(timer);
-              roomIntervals.delete(room.roomId);
-              await endTurn(io, room.roomId);
-            }
-          } catch (error) {
-            console.error('[TIMER] Error in reconnected timer:', error);
-            clearInterval(timer);
-            roomIntervals.delete(room.roomId);
-          }
-        }, 1000);
-
-        roomIntervals.set(room.roomId, timer);
-      }
-
-      // Notify other players about reconnection
-      socket.to(roomId).emit('playerReconnected', { 
-        playerName: player.name,
-        playerId: player.sessionId
+      logModeration({
+        type: 'report',
+        actor: 'player',
+        roomId,
+        sessionId: target.sessionId,
+        name: target.name,
+        reportId: report.id,
+        detail: `${reason} (by ${reporter.name})`,
       });
+      console.log(`[MODERATION] ${reporter.name} reported ${target.name} in ${roomId}: ${reason}`);
 
-      // Send updated player list
-      io.to(roomId).emit('playerJoined', { players: room.players });
-
-      console.log(`[SESSION] ${player.name} reconnected to ${roomId} successfully`);
+      socket.emit('reportSubmitted', { reportId: report.id });
     } catch (err) {
-      console.error('[SESSION] Reconnection error:', err);
-      socket.emit('error', { message: 'Failed to reconnect' });
+      socket.emit('error', { message: 'Failed to submit report' });
     }
   });
 
   // -------------------------------------------------
-  // WORD SELECTION (drawer only)
+  // DRAW & CLEAR
   // -------------------------------------------------
-  socket.on('wordSelected', async ({ roomId, word }) => {
+  // Drawer sends only new strokes, numbered from 1 each turn
+  socket.on('drawDelta', async ({ roomId, seq, strokes: rawStrokes }) => {
     try {
-      const room = await Room.findOne({ roomId });
-      if (!room || !room.gameStarted) return;
+      const strokes = normalizeStrokes(rawStrokes);
+      if (!Number.isInteger(seq) || !strokes) {
+        socket.emit('error', { message: 'Invalid stroke data' });
+        return;
+      }
 
-      const drawer = getDrawer(room);
-      if (!drawer || drawer.id !== socket.id) return;
+      await handleCanvasOp(socket, 'drawDelta', roomId, { seq, type: 'strokes', strokes });
+    } catch (err) {
+      console.error('[CANVAS] Failed to apply strokes:', err);
+    }
+  });
 
-      // Clear word selection timeout
-      const timeout = wordSelectionTimeouts.get(roomId);
-      if (timeout) {
-        clearTimeout(timeout);
-        wordSelectionTimeouts.delete(roomId);
+  socket.on('clearCanvas', async ({ roomId, seq }) => {
+    try {
+      if (!Number.isInteger(seq)) {
+        socket.emit('error', { message: 'Invalid canvas sequence number' });
+        return;
       }
 
-      // Set the selected word
-      room.currentWord = word;
-      const drawTime = room.drawTime || 60;
-      room.turnEndsAt = new Date(Date.now() + drawTime * 1000);
-      await room.save();
-
-      startDrawingPhase(io, room, word, drawTime);
+      await handleCanvasOp(socket, 'clearCanvas', roomId, { seq, type: 'clear' });
     } catch (err) {
-      socket.emit('error', { message: 'Failed to select word' });
+      console.error('[CANVAS] Failed to clear canvas:', err);
     }
   });
 
-  // -------------------------------------------------
-  // START GAME (creator only, 2+ players)
-  // -------------------------------------------------
-  socket.on('startGame', async ({ roomId }) => {
+  // Undo/redo the drawer's latest gesture or clear; numbered like drawDelta
+  socket.on('undo', async ({ roomId, seq }) => {
     try {
-      const room = await Room.findOne({ roomId });
-      if (!room) {
-        socket.emit('error', { message: 'Room not found' });
+      if (!Number.isInteger(seq)) {
+        socket.emit('error', { message: 'Invalid canvas sequence number' });
         return;
       }
 
-      const creatorId = room.players[0]?.id;
-      if (!creatorId || creatorId !== socket.id) {
-        socket.emit('error', { message: 'Only creator can start' });
+      await handleCanvasOp(socket, 'undo', roomId, { seq, type: 'undo' });
+    } catch (err) {
+      console.error('[CANVAS] Failed to undo:', err);
+    }
+  });
+
+  socket.on('redo', async ({ roomId, seq }) => {
+    try {
+      if (!Number.isInteger(seq)) {
+        socket.emit('error', { message: 'Invalid canvas sequence number' });
         return;
       }
 
-      if (room.players.length < 2) {
-        socket.emit('error', { message: 'Need 2+ players' });
+      await handleCanvasOp(socket, 'redo', roomId, { seq, type: 'redo' });
+    } catch (err) {
+      console.error('[CANVAS] Failed to redo:', err);
+    }
+  });
+
+  // Client noticed a gap in drawDelta seqs: send keyframe + tail (or just the tail)
+  socket.on('requestCanvasSync', async ({ roomId, sinceSeq }) => {
+    try {
+      if (!socket.rooms.has(roomId)) {
+        reportForgedEvent(socket, 'requestCanvasSync', roomId, 'not in room');
         return;
       }
 
-      if (room.gameStarted) return;
-
-      room.round = 1;
-      room.drawerIndex = 0;
-      await room.save();
+      const state = await loadCanvas(roomId);
+      if (!state) return;
 
-      console.log(`[DRAWER DEBUG] Game starting - Players: [${room.players.map((p, i) => `${i}:${p.name}`).join(', ')}], Initial drawerIndex: ${room.drawerIndex}`);
-      
-      startTurn(io, room);
+      socket.emit('canvasSync', {
+        roomId,
+        ...getCanvasSync(state, Number.isInteger(sinceSeq) ? sinceSeq : undefined),
+      });
     } catch (err) {
-      socket.emit('error', { message: 'Failed to start game' });
+      socket.emit('error', { message: 'Failed to sync canvas' });
     }
   });
 
   // -------------------------------------------------
-  // DRAW & CLEAR
+  // REPLAY A FINISHED TURN
   // -------------------------------------------------
-  socket.on('draw', async ({ roomId, lines }) => {
-    // Broadcast immediately for low latency
-    socket.to(roomId).emit('draw', { lines });
-    
-
-
-
-    
-    // Save drawing state asynchronously (simple)
-    setImmediate(async () => {
-      try {
-        await Room.updateOne({ roomId }, { currentDrawing: lines });
-      } catch (error) {
-        console.error('[CANVAS] Failed to save drawing state:', error);
+  socket.on('replayTurn', async ({ turnId, speed }) => {
+    try {
+      const record = await DrawingRecord.findOne({ turnId }).lean();
+      if (!record) {
+        socket.emit('error', { message: 'Turn not found' });
+        return;
       }
-    });
-  });
 
-  socket.on('clearCanvas', async ({ roomId }) => {
-    // Clear saved drawing state (simple)
-    try {
-      await Room.updateOne({ roomId }, { currentDrawing: [] });
-    } catch (error) {
-      console.error('[CANVAS] Failed to clear drawing state:', error);
+      const replaySpeed = Math.max(1, Math.min(REPLAY_MAX_SPEED, Number(speed) || 1));
+      startReplay(socket, record.turnId, record.events, record.durationMs, replaySpeed);
+    } catch (err) {
+      socket.emit('error', { message: 'Failed to replay turn' });
     }
-    
-    socket.to(roomId).emit('clearCanvas');
+  });
+
+  socket.on('stopReplay', () => {
+    stopReplay(socket.id);
   });
 
   // -------------------------------------------------
   // CHAT & GUESS
   // -------------------------------------------------
-  socket.on('chat', async ({ roomId, msg, name }) => {
-    if (!msg?.trim()) return;
+  socket.on('chat', async ({ roomId, msg }) => {
+    try {
+      if (!msg?.trim()) return;
 
-    // Rate limiting for chat messages
-    if (!checkRateLimit(socket.id, chatRateLimit, CHAT_RATE_LIMIT, CHAT_RATE_WINDOW)) {
-      socket.emit('error', { message: 'Sending messages too fast! Please wait a moment.' });
-      return;
-    }
-    
-    // Validate and filter message
-    const cleanedMsg = validateMessage(msg);
-    if (!cleanedMsg) {
-      socket.emit('error', { message: 'Message blocked: inappropriate content or spam' });
-      return;
-    }
+      // Rate limiting for chat messages
+      if (!checkRateLimit(socket.id, chatRateLimit, CHAT_RATE_LIMIT, CHAT_RATE_WINDOW)) {
+        socket.emit('error', { message: 'Sending messages too fast! Please wait a moment.' });
+        return;
+      }
+
+      // Name and channel come from the stored player, never from the client
+      const room = await Room.findOne(
+        { roomId },
+        { roomId: 1, players: 1, spectatorChatIsolated: 1, gameStarted: 1, currentWord: 1, correctGuessers: 1, customWords: 1, packWords: 1, moderationLevel: 1, language: 1 }
+      ).lean();
+      const sender = room?.players.find(p => p.id === socket.id);
+      if (!room || !sender) {
+        reportForgedEvent(socket, 'chat', roomId, 'not in room');
+        return;
+      }
 
-    // Broadcast immediately for fast user feedback
-    io.to(roomId).emit('chat', { id: socket.id, name, msg: cleanedMsg });
+      // Filter at the room's moderation level
+      const cleanedMsg = moderateChat(socket, room, sender, msg);
+      if (!cleanedMsg) return;
 
-    // Save chat asynchronously
-    setImmediate(async () => {
-      try {
-        await Room.updateOne(
-          { roomId },
-          { 
-            $push: { 
-              chat: { 
-                $each: [{ id: socket.id, name, msg: cleanedMsg, ts: new Date() }],
-                $slice: -50 // Keep only last 50 messages
-              }
-            },
-            lastActivity: new Date()
-          }
-        );
-      } catch (error) {
-        console.error('[CHAT] Failed to save message:', error);
+      const channel = getChatChannel(room, sender, cleanedMsg);
+      if (!channel) {
+        socket.emit('error', { message: 'Message blocked: it gives away the word' });
+        return;
       }
-    });
-  });
 
-  socket.on('guess', async ({ roomId, guess, name }) => {
-    // Fast initial validation without database lookup
-    if (!guess?.trim()) return;
-    
-    const cleanedGuess = validateMessage(guess);
-    if (!cleanedGuess) {
-      socket.emit('error', { message: 'Guess blocked: inappropriate content' });
-      return;
+      sendChatMessage(roomId, { id: socket.id, sessionId: sender.sessionId, name: sender.name, msg: cleanedMsg }, channel);
+    } catch (err) {
+      console.error('[CHAT] Failed to handle message:', err);
+      socket.emit('error', { message: 'Failed to send message' });
     }
+  });
+
+  socket.on('guess', async ({ roomId, guess }) => {
+    try {
+      // Fast initial validation without database lookup
+      if (!guess?.trim()) return;
 
-    const g = cleanedGuess.trim().toLowerCase().replace(/\s+/g, '');
-    if (!g) return;
+      // Guesses are matched as typed; moderation only applies to the chat echo
+      const cleanedGuess = guess.trim();
+      if (!normalizeGuess(cleanedGuess)) return;
 
-    // Get room data
-    const room = await Room.findOne({ roomId });
-    if (!room || !room.currentWord || !room.gameStarted) return;
+      // Get room data
+      const room = await Room.findOne({ roomId });
+      if (!room || !room.currentWord || !room.gameStarted) return;
 
-    const ans = room.currentWord.toLowerCase();
+      const guesser = room.players.find((p: Player) => p.id === socket.id);
+      if (!guesser) {
+        reportForgedEvent(socket, 'guess', roomId, 'not in room');
+        return;
+      }
 
-    // Check if exact match
-    if (g === ans) {
-      const player = room.players.find((p: Player) => p.id === socket.id);
-      if (!player) return;
-      
+      // Teams that may not guess this turn get the same reply whatever they typed,
+      // before any matching, so it cannot be used to test words
       const drawer = getDrawer(room);
-      const isDrawer = player.sessionId === drawer?.sessionId;
-      const already = room.correctGuessers?.includes(player.sessionId);
-      if (isDrawer || already) return;
-
-      // Calculate points based on time remaining
-      const endsAt = room.turnEndsAt ? new Date(room.turnEndsAt).getTime() : 0;
-      const timeRemaining = Math.max(0, Math.ceil((endsAt - Date.now()) / 1000));
-      const points = calculatePoints(timeRemaining, TURN_SECONDS);
-
-      // Broadcast correct guess IMMEDIATELY for fast feedback
-      io.to(roomId).emit('correctGuess', {
-        playerId: player.sessionId,
-        name,
-        points,
-        total: (player.score || 0) + points,
-      });
+      if (!guesser.isSpectator && guesser.sessionId !== drawer?.sessionId && !canGuessThisTurn(room, guesser)) {
+        socket.emit('error', { message: "It's not your team's turn to guess" });
+        return;
+      }
 
-      // Update database asynchronously
-      setImmediate(async () => {
-        try {
-          // Use atomic operations to prevent conflicts
-          const updateResult = await Room.updateOne(
-            { 
-              roomId,
-              'players.sessionId': player.sessionId,
-              correctGuessers: { $ne: player.sessionId } // Ensure not already guessed
-            },
-            {
-              $addToSet: { correctGuessers: player.sessionId },
-              $inc: { [`players.$.score`]: points },
-              $set: { 
-                [`roundPoints.${player.sessionId}`]: points,
-                lastActivity: new Date()
+      // The chosen word and its alternates ("colour|color")
+      const answers = getAcceptedAnswers(room.currentWord, customEntries(room), room.language);
+
+      // Spectators, the drawer and players who already guessed only chat
+      const canScore = !guesser.isSpectator
+        && guesser.sessionId !== drawer?.sessionId
+        && !room.correctGuessers?.includes(guesser.sessionId);
+
+      // Check if exact match
+      if (canScore && isCorrectGuess(cleanedGuess, answers, room.language)) {
+        // Calculate points based on time remaining
+        const endsAt = room.turnEndsAt ? new Date(room.turnEndsAt).getTime() : 0;
+        const timeRemaining = Math.max(0, Math.ceil((endsAt - Date.now()) / 1000));
+        const points = calculatePoints(timeRemaining, TURN_SECONDS);
+        const startedAt = room.drawingStartedAt ? new Date(room.drawingStartedAt).getTime() : Date.now();
+        const guessTimeMs = Date.now() - startedAt;
+
+        // From now on this player chats with the drawer and other correct guessers
+        socket.join(guessedRoom(roomId));
+
+        // Broadcast correct guess IMMEDIATELY for fast feedback
+        io.to(roomId).emit('correctGuess', {
+          playerId: guesser.sessionId,
+          name: guesser.name,
+          points,
+          total: (guesser.score || 0) + points,
+        });
+
+        // Update database asynchronously
+        setImmediate(async () => {
+          try {
+            // Use atomic operations to prevent conflicts
+            const updateResult = await Room.updateOne(
+              { 
+                roomId,
+                'players.sessionId': guesser.sessionId,
+                correctGuessers: { $ne: guesser.sessionId } // Ensure not already guessed
+              },
+              {
+                $addToSet: { correctGuessers: guesser.sessionId },
+                $inc: { [`players.$.score`]: points },
+                $set: { 
+                  [`roundPoints.${guesser.sessionId}`]: points,
+                  [`guessTimes.${guesser.sessionId}`]: guessTimeMs,
+                  lastActivity: new Date()
+                }
               }
-            }
-          );
-
-          if (updateResult.modifiedCount > 0) {
-            // Check if everyone guessed for early end
-            const updatedRoom = await Room.findOne({ roomId });
-            if (updatedRoom) {
-              const drawer = getDrawer(updatedRoom);
-              const connectedNonDrawers = updatedRoom.players.filter(p => 
-                p.isConnected && p.sessionId !== drawer?.sessionId
-              ).length;
-              
-              if ((updatedRoom.correctGuessers?.length || 0) >= connectedNonDrawers) {
-                await endTurn(io, roomId);
+            );
+
+            if (updateResult.modifiedCount > 0) {
+              // Check if everyone guessed for early end
+              const updatedRoom = await Room.findOne({ roomId });
+              if (updatedRoom) {
+                if ((updatedRoom.correctGuessers?.length || 0) >= countEligibleGuessers(updatedRoom)) {
+                  await endTurn(io, roomId);
+                }
               }
             }
+          } catch (error) {
+            console.error('[GUESS] Failed to save correct guess:', error);
           }
-        } catch (error) {
-          console.error('[GUESS] Failed to save correct guess:', error);
-        }
-      });
+        });
       
-      return; // Exit early for correct guess
-    }
+        return; // Exit early for correct guess
+      }
 
-    // Check for "close" guess using edit distance
-    const distance = getEditDistance(g, ans);
-    
-    // Only check closeness if word is 3+ letters and distance is exactly 1
-    if (ans.length >= 3 && distance === 1) {
-      // Send private "close" message only to this player
-      socket.emit('closeGuess', { 
-        message: 'You are very close!' 
-      });
-    }
-    
-    // Echo wrong guess as chat message immediately (use cleaned version)
-    io.to(roomId).emit('chat', { id: socket.id, name, msg: cleanedGuess });
-    
-    // Save wrong guess to chat history asynchronously
-    setImmediate(async () => {
-      try {
-        await Room.updateOne(
-          { roomId },
-          { 
-            $push: { 
-              chat: { 
-                $each: [{ id: socket.id, name, msg: cleanedGuess, ts: new Date() }],
-                $slice: -50 // Keep only last 50 messages
-              }
-            },
-            lastActivity: new Date()
-          }
-        );
-      } catch (error) {
-        console.error('[GUESS] Failed to save wrong guess:', error);
+      // Close guesses stay private: echoing them would hint the word to everyone
+      if (canScore && answers.some(answer => isCloseGuess(cleanedGuess, answer, room.language))) {
+        socket.emit('closeGuess', { 
+          message: 'You are very close!' 
+        });
+        return;
       }
-    });
+
+      const echo = moderateChat(socket, room, guesser, cleanedGuess);
+      if (!echo) return;
+
+      const channel = getChatChannel(room, guesser, echo);
+      if (!channel) {
+        socket.emit('error', { message: 'Message blocked: it gives away the word' });
+        return;
+      }
+
+      // Echo wrong guess as chat message immediately (use cleaned version)
+      sendChatMessage(roomId, { id: socket.id, sessionId: guesser.sessionId, name: guesser.name, msg: echo }, channel);
+    } catch (err) {
+      console.error('[GUESS] Failed to handle guess:', err);
+      socket.emit('error', { message: 'Failed to submit guess' });
+    }
   });
 
   // -------------------------------------------------
   // DISCONNECT – clean up player & possibly end game
   // -------------------------------------------------
+  // socket.rooms is already empty once 'disconnect' fires, so capture it first
+  let joinedRooms: string[] = [];
+  socket.on('disconnecting', () => {
+    joinedRooms = Array.from(socket.rooms).filter(r => r !== socket.id);
+  });
+
   socket.on('disconnect', async () => {
     console.log('[SESSION] Player disconnected:', socket.id);
 
     // Clean up rate limiting data for this socket
     chatRateLimit.delete(socket.id);
+    forgedEventCounts.delete(socket.id);
+    stopReplay(socket.id);
 
     // Find all rooms the socket was in (usually one)
-    const rooms = Array.from(socket.rooms).filter(r => r !== socket.id);
-    for (const roomId of rooms) {
-      const room = await Room.findOne({ roomId });
-      if (!room) continue;
+    for (const roomId of joinedRooms) {
+      // The socket is gone, so failures can only be logged; other rooms still get cleaned up
+      try {
+        const room = await Room.findOne({ roomId });
+        if (!room) continue;
 
-      const disconnectingPlayer = room.players.find(p => p.id === socket.id);
-      if (!disconnectingPlayer) continue;
+        const disconnectingPlayer = room.players.find(p => p.id === socket.id);
+        if (!disconnectingPlayer) continue;
       
-      console.log(`[SESSION] Player ${disconnectingPlayer.name} (${disconnectingPlayer.sessionId}) disconnected from ${roomId}`);
+        console.log(`[SESSION] Player ${disconnectingPlayer.name} (${disconnectingPlayer.sessionId}) disconnected from ${roomId}`);
+
+        // Mark player as disconnected instead of removing them
+        disconnectingPlayer.isConnected = false;
+        disconnectingPlayer.lastSeen = new Date();
+
+        // Give the host a grace period before handing the role over
+        if (disconnectingPlayer.sessionId === getHostSessionId(room)) {
+          scheduleHostMigration(io, roomId);
+        }
 
-      // Mark player as disconnected instead of removing them
-      disconnectingPlayer.isConnected = false;
-      disconnectingPlayer.lastSeen = new Date();
+        scheduleDisconnectRemoval(io, roomId, disconnectingPlayer.sessionId);
 
-      // Check if all players are disconnected
-      const connectedPlayers = room.players.filter(p => p.isConnected);
+        // Check if all players are disconnected
+        const connectedPlayers = room.players.filter(p => p.isConnected);
       
-      if (connectedPlayers.length === 0) {
-        // All players disconnected - clean up room after delay
-        console.log(`[SESSION] All players disconnected from ${roomId}, scheduling cleanup`);
-        setTimeout(async () => {
-          const freshRoom = await Room.findOne({ roomId });
-          if (freshRoom && freshRoom.players.every(p => !p.isConnected)) {
-            await Room.deleteOne({ roomId });
-            const t = roomIntervals.get(roomId);
-            if (t) clearInterval(t);
-            roomIntervals.delete(roomId);
-            const wst = wordSelectionTimeouts.get(roomId);
-            if (wst) clearTimeout(wst);
-            wordSelectionTimeouts.delete(roomId);
-            endTurnInProgress.delete(roomId);
-            console.log(`[SESSION] Room ${roomId} deleted - all players offline`);
-          }
-        }, 300000); // 5 minutes delay
-      }
+        if (connectedPlayers.length === 0) {
+          // All players disconnected - clean up room after delay
+          console.log(`[SESSION] All players disconnected from ${roomId}, scheduling cleanup`);
+          setTimeout(async () => {
+            try {
+              const freshRoom = await Room.findOne({ roomId });
+              if (freshRoom && freshRoom.players.every(p => !p.isConnected)) {
+                await Room.deleteOne({ roomId });
+                const t = roomIntervals.get(roomId);
+                if (t) clearInterval(t);
+                roomIntervals.delete(roomId);
+                const wst = wordSelectionTimeouts.get(roomId);
+                if (wst) clearTimeout(wst);
+                wordSelectionTimeouts.delete(roomId);
+                offeredWords.delete(roomId);
+                endTurnInProgress.delete(roomId);
+                cancelHostMigration(roomId);
+                voteKicks.delete(roomId);
+                turnRecordings.delete(roomId);
+                dropCanvas(roomId);
+                clearModeration(roomId);
+                console.log(`[SESSION] Room ${roomId} deleted - all players offline`);
+              }
+            } catch (error) {
+              console.error('[CLEANUP] Failed to delete offline room:', error);
+            }
+          }, 300000); // 5 minutes delay
+        }
 
-      await room.save();
+        await room.save();
 
-      // Notify other players about disconnection
-      socket.to(roomId).emit('playerDisconnected', { 
-        playerName: disconnectingPlayer.name,
-        playerId: disconnectingPlayer.sessionId
-      });
+        // Notify other players about disconnection
+        socket.to(roomId).emit('playerDisconnected', { 
+          playerName: disconnectingPlayer.name,
+          playerId: disconnectingPlayer.sessionId
+        });
 
-      // Send updated player list
-      io.to(roomId).emit('playerJoined', { players: room.players });
+        // Send updated player list
+        io.to(roomId).emit('playerJoined', { players: publicPlayers(room.players) });
+      } catch (err) {
+        console.error(`[SESSION] Failed to handle disconnect from ${roomId}:`, err);
+      }
     }
   });
 });
@@ -1272,7 +3658,21 @@ function cleanupRateLimits() {
     }
   }
   
-  console.log(`[CLEANUP] Rate limits cleaned. Chat: ${chatRateLimit.size}`);
+  // Clean expired join attempt limits
+  for (const [key, limit] of joinRateLimit.entries()) {
+    if (now > limit.resetTime) {
+      joinRateLimit.delete(key);
+    }
+  }
+  
+  // Clean expired drawing export limits
+  for (const [ip, limit] of svgRateLimit.entries()) {
+    if (now > limit.resetTime) {
+      svgRateLimit.delete(ip);
+    }
+  }
+  
+  console.log(`[CLEANUP] Rate limits cleaned. Chat: ${chatRateLimit.size}, Join: ${joinRateLimit.size}, SVG: ${svgRateLimit.size}`);
 }
 
 // Start cleanup intervals
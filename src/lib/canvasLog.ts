@@ -0,0 +1,213 @@
+import type { Stroke } from '../models/Room.js';
+import { MAX_STROKES, normalizeStrokes } from './strokes.js';
+
+// Sequenced canvas log for the incremental draw protocol.
+// The drawer numbers every canvas operation (1, 2, 3, ... per turn); the server
+// applies them strictly in order, keeps the operations since the last keyframe
+// as a tail and compacts the tail into a new keyframe every KEYFRAME_INTERVAL ops.
+//
+// Undo and redo are decided here, not by the client: every gesture (all strokes
+// sharing an id, whether pen, eraser or fill) and every clear is an action on
+// the undo stack, and the resulting undo/redo op names the action it affected.
+
+export const KEYFRAME_INTERVAL = 50;
+export const MAX_UNDO_DEPTH = 100;
+
+export type CanvasOpType = 'strokes' | 'clear' | 'undo' | 'redo';
+
+/**
+ * One applied operation, as broadcast and kept in the tail.
+ * undo: remove the strokes with id `targetId`, or for an undone clear
+ *       put `strokes` back as the whole canvas.
+ * redo: append `strokes` again, or for a redone clear wipe the canvas.
+ * `targetId` is null when there was nothing to undo/redo.
+ */
+export interface CanvasOp {
+  seq: number;
+  type: CanvasOpType;
+  strokes?: Stroke[];
+  targetId?: string | null;
+}
+
+export interface CanvasKeyframe {
+  seq: number;
+  strokes: Stroke[];
+}
+
+interface CanvasAction {
+  id: string;              // stroke id, or `clear_<seq>`
+  type: 'draw' | 'clear';
+  strokes: Stroke[];       // draw: undone strokes (for redo); clear: the wiped canvas
+}
+
+export interface CanvasState {
+  seq: number;             // last applied sequence number
+  strokes: Stroke[];       // live drawing
+  keyframe: CanvasKeyframe;
+  tail: CanvasOp[];        // ops applied after the keyframe
+  undoStack: CanvasAction[];
+  redoStack: CanvasAction[];
+}
+
+export type ApplyResult =
+  | { status: 'applied'; op: CanvasOp; keyframe?: CanvasKeyframe }
+  | { status: 'duplicate' }
+  | { status: 'gap'; expectedSeq: number }
+  | { status: 'full' };
+
+// Undo history is not persisted: a canvas rebuilt after a restart starts without it
+export function createCanvasState(strokes: Stroke[] = [], seq = 0): CanvasState {
+  return {
+    seq,
+    strokes: [...strokes],
+    keyframe: { seq, strokes: [...strokes] },
+    tail: [],
+    undoStack: [],
+    redoStack: [],
+  };
+}
+
+function pushUndo(state: CanvasState, action: CanvasAction) {
+  state.undoStack.push(action);
+  if (state.undoStack.length > MAX_UNDO_DEPTH) state.undoStack.shift();
+}
+
+// New strokes: segments continuing the latest gesture extend its action
+function applyStrokes(state: CanvasState, strokes: Stroke[]) {
+  for (const stroke of strokes) {
+    const top = state.undoStack[state.undoStack.length - 1];
+    if (top?.type !== 'draw' || top.id !== stroke.id) {
+      pushUndo(state, { id: stroke.id, type: 'draw', strokes: [] });
+    }
+  }
+  state.strokes.push(...strokes);
+  state.redoStack = [];
+}
+
+function applyUndo(state: CanvasState, seq: number): CanvasOp {
+  const action = state.undoStack.pop();
+  if (!action) return { seq, type: 'undo', targetId: null };
+
+  state.redoStack.push(action);
+  if (action.type === 'clear') {
+    state.strokes = [...action.strokes];
+    return { seq, type: 'undo', targetId: action.id, strokes: action.strokes };
+  }
+
+  action.strokes = state.strokes.filter(s => s.id === action.id);
+  state.strokes = state.strokes.filter(s => s.id !== action.id);
+  return { seq, type: 'undo', targetId: action.id };
+}
+
+function applyRedo(state: CanvasState, seq: number): CanvasOp {
+  const action = state.redoStack.pop();
+  if (!action) return { seq, type: 'redo', targetId: null };
+
+  pushUndo(state, action);
+  if (action.type === 'clear') {
+    state.strokes = [];
+    return { seq, type: 'redo', targetId: action.id };
+  }
+
+  state.strokes.push(...action.strokes);
+  return { seq, type: 'redo', targetId: action.id, strokes: action.strokes };
+}
+
+/**
+ * Apply one drawer operation. Old sequence numbers are ignored (resends),
+ * skipped ones are rejected so the drawer can resend from `expectedSeq`.
+ * Returns the op as applied (undo/redo filled in with their target) and
+ * the new keyframe when the tail was compacted.
+ */
+export function applyCanvasOp(state: CanvasState, request: { seq: number; type: CanvasOpType; strokes?: Stroke[] }): ApplyResult {
+  const { seq } = request;
+  if (seq <= state.seq) return { status: 'duplicate' };
+  if (seq !== state.seq + 1) return { status: 'gap', expectedSeq: state.seq + 1 };
+
+  let op: CanvasOp;
+  switch (request.type) {
+    case 'strokes': {
+      const strokes = request.strokes ?? [];
+      if (state.strokes.length + strokes.length > MAX_STROKES) return { status: 'full' };
+      applyStrokes(state, strokes);
+      op = { seq, type: 'strokes', strokes };
+      break;
+    }
+    case 'clear':
+      pushUndo(state, { id: `clear_${seq}`, type: 'clear', strokes: state.strokes });
+      state.strokes = [];
+      state.redoStack = [];
+      op = { seq, type: 'clear' };
+      break;
+    case 'undo':
+      op = applyUndo(state, seq);
+      break;
+    case 'redo': {
+      const next = state.redoStack[state.redoStack.length - 1];
+      if (next?.type === 'draw' && state.strokes.length + next.strokes.length > MAX_STROKES) return { status: 'full' };
+      op = applyRedo(state, seq);
+      break;
+    }
+  }
+
+  state.seq = seq;
+  state.tail.push(op);
+
+  // A clear is a natural keyframe and needs no broadcast of its own
+  if (op.type === 'clear') {
+    state.keyframe = { seq, strokes: [] };
+    state.tail = [];
+    return { status: 'applied', op };
+  }
+
+  if (state.tail.length >= KEYFRAME_INTERVAL) {
+    state.keyframe = { seq, strokes: [...state.strokes] };
+    state.tail = [];
+    return { status: 'applied', op, keyframe: state.keyframe };
+  }
+  return { status: 'applied', op };
+}
+
+/**
+ * What a client needs to catch up: the tail alone when it already has
+ * everything up to the keyframe, otherwise the keyframe plus the tail
+ */
+export function getCanvasSync(state: CanvasState, sinceSeq?: number) {
+  if (sinceSeq !== undefined && sinceSeq >= state.keyframe.seq && sinceSeq <= state.seq) {
+    return { seq: state.seq, tail: state.tail.filter(op => op.seq > sinceSeq) };
+  }
+  return { seq: state.seq, keyframe: state.keyframe, tail: state.tail };
+}
+
+/**
+ * Step a replay canvas through one recorded drawing event. Undo and redo are
+ * recorded by target only and re-run against the replayed undo stack; 'draw'
+ * events from older records carry the whole drawing. Returns the canvas to
+ * use from now on.
+ */
+export function applyDrawingEvent(state: CanvasState, event: { type: string; lines?: unknown; targetId?: string | null }): CanvasState {
+  const next = { seq: state.seq + 1 };
+  switch (event.type) {
+    case 'clear':
+      applyCanvasOp(state, { ...next, type: 'clear' });
+      break;
+    case 'strokes':
+      applyCanvasOp(state, { ...next, type: 'strokes', strokes: normalizeStrokes(event.lines) ?? [] });
+      break;
+    case 'undo':
+    case 'redo':
+      // Nothing happened live when there was no target
+      if (event.targetId) applyCanvasOp(state, { ...next, type: event.type });
+      break;
+    case 'draw':
+      return createCanvasState(normalizeStrokes(event.lines) ?? state.strokes, state.seq);
+  }
+  return state;
+}
+
+/**
+ * Final canvas of a recorded turn
+ */
+export function finalStrokesFromEvents(events: { type: string; lines?: unknown; targetId?: string | null }[]): Stroke[] {
+  return events.reduce(applyDrawingEvent, createCanvasState()).strokes;
+}
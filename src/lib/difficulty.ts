@@ -0,0 +1,92 @@
+import type { WordDifficulty } from './words.js';
+
+// Difficulty curve for dictionary word choices: a room picks a named preset,
+// its own weights ('custom'), or 'adaptive', which starts from 'classic' and
+// leans toward 'casual' or 'competitive' as recent words turn out too hard or too easy.
+
+export type DifficultyWeights = Record<WordDifficulty, number>;
+export type DifficultyPreset = 'casual' | 'classic' | 'competitive' | 'adaptive' | 'custom';
+
+export const DIFFICULTY_PRESETS: DifficultyPreset[] = ['casual', 'classic', 'competitive', 'adaptive', 'custom'];
+export const DEFAULT_DIFFICULTY_PRESET: DifficultyPreset = 'classic';
+
+// Percentages of easy, medium and hard words
+const PRESET_WEIGHTS: Record<'casual' | 'classic' | 'competitive', DifficultyWeights> = {
+  casual: { easy: 50, medium: 35, hard: 15 },
+  classic: { easy: 20, medium: 40, hard: 40 },
+  competitive: { easy: 5, medium: 35, hard: 60 },
+};
+
+export const ADAPTIVE_WINDOW = 5;        // turns the adaptive curve looks back on
+const ADAPTIVE_TARGET_RATE = 0.5;        // share of guessers who should get the word
+
+export function isDifficultyPreset(value: unknown): value is DifficultyPreset {
+  return typeof value === 'string' && (DIFFICULTY_PRESETS as string[]).includes(value);
+}
+
+/**
+ * Weights a preset starts with; 'adaptive' starts from 'classic' and
+ * 'custom' has none of its own
+ */
+export function presetWeights(preset: DifficultyPreset): DifficultyWeights {
+  const base = preset === 'casual' || preset === 'competitive' ? PRESET_WEIGHTS[preset] : PRESET_WEIGHTS.classic;
+  return { ...base };
+}
+
+/**
+ * Validate host-supplied weights and scale them to percentages.
+ * Null unless all three are non-negative numbers with a positive sum.
+ */
+export function normalizeWeights(raw: unknown): DifficultyWeights | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { easy, medium, hard } = raw as Record<string, unknown>;
+  const values = [easy, medium, hard];
+  if (!values.every(v => typeof v === 'number' && Number.isFinite(v) && v >= 0)) return null;
+
+  const [e, m, h] = values as number[];
+  const total = e! + m! + h!;
+  if (total <= 0) return null;
+
+  const scaledEasy = Math.round((e! / total) * 100);
+  const scaledMedium = Math.round((m! / total) * 100);
+  return { easy: scaledEasy, medium: scaledMedium, hard: Math.max(0, 100 - scaledEasy - scaledMedium) };
+}
+
+/**
+ * Roll a difficulty with the given weights
+ */
+export function rollDifficulty(weights: DifficultyWeights): WordDifficulty {
+  const total = weights.easy + weights.medium + weights.hard;
+  if (total <= 0) return 'medium';
+
+  const roll = Math.random() * total;
+  if (roll < weights.easy) return 'easy';
+  if (roll < weights.easy + weights.medium) return 'medium';
+  return 'hard';
+}
+
+/**
+ * Append a turn's guess rate, keeping the last ADAPTIVE_WINDOW turns
+ */
+export function recordGuessRate(rates: number[], rate: number): number[] {
+  return [...rates, Math.min(1, Math.max(0, rate))].slice(-ADAPTIVE_WINDOW);
+}
+
+/**
+ * Adaptive curve: the further the recent guess rate is from the target,
+ * the closer the weights move from 'classic' to 'competitive' (words too
+ * easy) or to 'casual' (words too hard)
+ */
+export function adaptiveWeights(rates: number[]): DifficultyWeights {
+  const { classic } = PRESET_WEIGHTS;
+  if (rates.length === 0) return { ...classic };
+
+  const average = rates.reduce((sum, rate) => sum + rate, 0) / rates.length;
+  const shift = Math.max(-1, Math.min(1, (average - ADAPTIVE_TARGET_RATE) / ADAPTIVE_TARGET_RATE));
+  const target = shift >= 0 ? PRESET_WEIGHTS.competitive : PRESET_WEIGHTS.casual;
+  const amount = Math.abs(shift);
+
+  const easy = Math.round(classic.easy + (target.easy - classic.easy) * amount);
+  const medium = Math.round(classic.medium + (target.medium - classic.medium) * amount);
+  return { easy, medium, hard: 100 - easy - medium };
+}
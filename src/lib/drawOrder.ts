@@ -0,0 +1,11 @@
+// Drawing order helpers that only look at the player list.
+
+/**
+ * Seat a player who joins a running game just before the current drawer,
+ * so the players still due this round keep their order and the newcomer
+ * first draws next round. Returns the drawer's new index.
+ */
+export function insertLateJoiner<T>(players: T[], drawerIndex: number, player: T): number {
+  players.splice(drawerIndex, 0, player);
+  return drawerIndex + 1;
+}
@@ -0,0 +1,227 @@
+// Guess checking: normalization shared by guesses and the chat leak filter.
+// Guesses and answers go through the same steps, so "Ice-Cream", "ice cream"
+// and "icecreams" all compare equal to "ice cream". Plural and spelling rules
+// are English only; folding works for any script.
+
+// British spellings mapped to the American ones (applied per word)
+const SPELLING_VARIANTS: Record<string, string> = {
+  grey: 'gray',
+  aeroplane: 'airplane',
+  doughnut: 'donut',
+  pyjamas: 'pajamas',
+  pyjama: 'pajama',
+  tyre: 'tire',
+  aluminium: 'aluminum',
+  moustache: 'mustache',
+  jewellery: 'jewelry',
+  plough: 'plow',
+  mum: 'mom',
+  cosy: 'cozy',
+  kerb: 'curb',
+};
+
+// Letters without a decomposition that are often typed spelled out
+const FOLDED_LETTERS: Record<string, string> = {
+  'ß': 'ss',
+  'œ': 'oe',
+  'æ': 'ae',
+  'ς': 'σ',
+};
+
+// Accents are optional in casual typing only in these scripts. Elsewhere a
+// combining mark changes the letter (Devanagari vowel signs, kana voicing marks).
+const ACCENTED_LETTER = /([\p{Script=Latin}\p{Script=Greek}\p{Script=Cyrillic}])\p{M}+/gu;
+
+// Scripts written without spaces between words
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+// Fold case and strip accents ("Café" -> "cafe", "ёлка" -> "елка", "Straße" -> "strasse")
+function foldText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(ACCENTED_LETTER, '$1')
+    .normalize('NFC')
+    .replace(/[ßœæς]/g, c => FOLDED_LETTERS[c] ?? c);
+}
+
+// Words of a text; hyphens, punctuation and spacing only separate them
+function splitWords(text: string): string[] {
+  return foldText(text).split(/[^\p{L}\p{M}\p{N}]+/u).filter(Boolean);
+}
+
+// Common British endings: colour, centre, realise, analyse, catalogue
+function americanize(word: string): string {
+  const mapped = SPELLING_VARIANTS[word];
+  if (mapped) return mapped;
+  if (word.length <= 4) return word;
+  return word
+    .replace(/our$/, 'or')
+    .replace(/([^aeiou])re$/, '$1er')
+    .replace(/ise$/, 'ize')
+    .replace(/yse$/, 'yze')
+    .replace(/ogue$/, 'og');
+}
+
+// A word as typed plus the singulars it could be a regular plural of
+// ("houses" -> house, hous; "cookies" -> cookie, cooki, cooky). The typed
+// form is always kept, so words that merely end in "s" still match as is.
+function pluralStems(word: string): string[] {
+  const stems = [word];
+  if (word.length <= 3 || !word.endsWith('s')) return stems;
+  stems.push(word.slice(0, -1));
+  if (word.endsWith('es') && word.length > 4) stems.push(word.slice(0, -2));
+  if (word.endsWith('ies') && word.length > 4) stems.push(word.slice(0, -3) + 'y');
+  return stems;
+}
+
+function normalizeWord(word: string, language: string): string {
+  return language === 'en' ? americanize(word) : word;
+}
+
+// Forms a typed word may stand for; only English has plural rules
+function wordForms(word: string, language: string): string[] {
+  return language === 'en' ? [...new Set(pluralStems(word).map(americanize))] : [word];
+}
+
+// The form answers are compared in: folded, no separators, and for English
+// American spelling
+export function normalizeGuess(text: string, language = 'en'): string {
+  return splitWords(text).map(word => normalizeWord(word, language)).join('');
+}
+
+// Whether typed words, each as typed or as a singular, spell out a
+// normalized answer. Plurals only count on the guess side, so "cookies"
+// matches "cookie" but "new" does not match "news".
+function spellsAnswer(words: string[], ans: string, language: string): boolean {
+  if (!ans) return false;
+
+  // Offsets into the answer the words so far can reach
+  let reached = new Set([0]);
+  for (const word of words) {
+    const next = new Set<number>();
+    for (const at of reached) {
+      for (const form of wordForms(word, language)) {
+        if (ans.startsWith(form, at)) next.add(at + form.length);
+      }
+    }
+    if (next.size === 0) return false;
+    reached = next;
+  }
+  return reached.has(ans.length);
+}
+
+// Calculate Levenshtein Distance (Edit Distance) over code points
+export function getEditDistance(text1: string, text2: string): number {
+  const str1 = [...text1];
+  const str2 = [...text2];
+  const len1 = str1.length;
+  const len2 = str2.length;
+  const matrix: number[][] = [];
+
+  // Initialize matrix
+  for (let i = 0; i <= len1; i++) {
+    matrix[i] = [i];
+  }
+  for (let j = 0; j <= len2; j++) {
+    if (matrix[0]) {
+      matrix[0][j] = j;
+    }
+  }
+
+  // Fill matrix
+  for (let i = 1; i <= len1; i++) {
+    for (let j = 1; j <= len2; j++) {
+      if (str1[i - 1] === str2[j - 1]) {
+        const prevVal = matrix[i - 1]?.[j - 1];
+        if (prevVal !== undefined) {
+          matrix[i]![j] = prevVal;
+        }
+      } else {
+        const sub = matrix[i - 1]?.[j - 1] ?? Infinity;
+        const ins = matrix[i]?.[j - 1] ?? Infinity;
+        const del = matrix[i - 1]?.[j] ?? Infinity;
+        matrix[i]![j] = Math.min(sub + 1, ins + 1, del + 1);
+      }
+    }
+  }
+
+  return matrix[len1]?.[len2] ?? 0;
+}
+
+// Edits allowed for a "close" guess, growing with the answer's length
+export function closeGuessDistance(length: number): number {
+  if (length < 3) return 0;
+  if (length < 7) return 1;
+  if (length < 11) return 2;
+  return 3;
+}
+
+// Within the close distance of the answer, but not the answer itself
+export function isCloseGuess(guess: string, answer: string, language = 'en'): boolean {
+  const g = normalizeGuess(guess, language);
+  const ans = normalizeGuess(answer, language);
+  const length = [...ans].length;
+  const maxDistance = closeGuessDistance(length);
+  if (maxDistance === 0 || Math.abs([...g].length - length) > maxDistance) return false;
+
+  const distance = getEditDistance(g, ans);
+  return distance > 0 && distance <= maxDistance;
+}
+
+// Exact match against any accepted answer, allowing English plurals of it
+export function isCorrectGuess(guess: string, answers: string[], language = 'en'): boolean {
+  const words = splitWords(guess);
+  return words.length > 0 && answers.some(answer => spellsAnswer(words, normalizeGuess(answer, language), language));
+}
+
+// Shortest word a near-miss leak is looked for in; shorter words are too
+// often one edit away from an unrelated answer ("at" for "cat")
+const MIN_NEAR_LEAK_LETTERS = 5;
+
+// Words of a chat line, with runs of single letters ("c a t") joined back up
+function chatTokens(text: string): string[] {
+  const tokens: string[] = [];
+  let letters = '';
+  for (const token of splitWords(text)) {
+    if ([...token].length === 1) {
+      letters += token;
+      continue;
+    }
+    if (letters) tokens.push(letters);
+    letters = '';
+    tokens.push(token);
+  }
+  if (letters) tokens.push(letters);
+  return tokens;
+}
+
+/**
+ * Whether a chat line gives an answer away: some run of its words, each
+ * as typed or as a singular, spells out an accepted answer, or is a close
+ * guess for one ("elefant"). Near misses only count for runs of words of
+ * at least MIN_NEAR_LEAK_LETTERS letters, so short everyday words pass.
+ * Answers in scripts without word spacing are looked for anywhere in the line.
+ */
+export function revealsWord(text: string, answers: string[], language = 'en'): boolean {
+  const tokens = chatTokens(text);
+
+  return answers.some(answer => {
+    const ans = normalizeGuess(answer, language);
+    if (!ans) return false;
+    if (UNSPACED_SCRIPT.test(ans) && normalizeGuess(text, language).includes(ans)) return true;
+
+    const maxRun = splitWords(answer).length + 1;
+    for (let start = 0; start < tokens.length; start++) {
+      for (let end = start; end < tokens.length && end - start < maxRun; end++) {
+        const run = tokens.slice(start, end + 1);
+        if (spellsAnswer(run, ans, language)) return true;
+        if (run.every(word => [...word].length >= MIN_NEAR_LEAK_LETTERS)
+          && isCloseGuess(run.map(word => normalizeWord(word, language)).join(''), ans, language)) {
+          return true;
+        }
+      }
+    }
+    return false;
+  });
+}
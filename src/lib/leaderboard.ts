@@ -0,0 +1,127 @@
+import type { AnyBulkWriteOperation } from 'mongoose';
+import { LeaderboardEntry, type ILeaderboardEntry, type LeaderboardPeriod } from '../models/LeaderboardEntry.js';
+import type { Player } from '../models/Room.js';
+
+// Daily, weekly and all-time leaderboards built from final standings.
+// Points come from placement rather than raw score, and are scaled down
+// for small games so two accounts cannot farm rating off each other.
+// Games that are too short or where nobody is ahead award nothing.
+
+type RankedPlayer = Pick<Player, 'sessionId' | 'playerId' | 'name' | 'score'>;
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['daily', 'weekly', 'alltime'];
+
+const PLACEMENT_POINTS = 100;        // winner of a full-weight game
+const FULL_WEIGHT_PLAYERS = 6;       // games this size or larger count fully
+const MIN_RANKED_PLAYERS = 2;
+const MIN_RANKED_TURNS = 3;          // and at least one turn per ranked player
+
+/**
+ * Period key for a date: '2024-12-09' (daily), '2024-W50' (ISO week) or 'all'
+ */
+export function getPeriodKey(period: LeaderboardPeriod, date = new Date()): string {
+  if (period === 'alltime') return 'all';
+  if (period === 'daily') return date.toISOString().slice(0, 10);
+
+  // ISO week: the week containing the year's first Thursday is week 1
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const day = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() + 4 - day);
+  const yearStart = Date.UTC(d.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((d.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${d.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+export function isLeaderboardPeriod(value: string): value is LeaderboardPeriod {
+  return (LEADERBOARD_PERIODS as string[]).includes(value);
+}
+
+/**
+ * Normalized leaderboard points per playerId for one finished game of
+ * completedTurns turns. Players sharing a playerId are counted once, with
+ * their best result.
+ */
+export function computeLeaderboardPoints(
+  players: RankedPlayer[],
+  completedTurns: number
+): Map<string, { name: string; points: number; won: boolean }> {
+  const best = new Map<string, RankedPlayer>();
+  for (const p of players) {
+    if (!p.playerId) continue;
+    const existing = best.get(p.playerId);
+    if (!existing || (p.score || 0) > (existing.score || 0)) {
+      best.set(p.playerId, p);
+    }
+  }
+
+  const ranked = [...best.values()].sort((a, b) => (b.score || 0) - (a.score || 0));
+  const n = ranked.length;
+  const results = new Map<string, { name: string; points: number; won: boolean }>();
+  if (n < MIN_RANKED_PLAYERS || completedTurns < Math.max(MIN_RANKED_TURNS, n)) return results;
+
+  // Nobody ahead (all tied, e.g. nobody scored): nothing to rank
+  if ((ranked[0]!.score || 0) === (ranked[n - 1]!.score || 0)) return results;
+
+  const weight = Math.min(1, (n - 1) / (FULL_WEIGHT_PLAYERS - 1));
+  for (const p of ranked) {
+    // Ties share the better placement
+    const rank = ranked.findIndex(other => (other.score || 0) === (p.score || 0));
+    const placement = (n - 1 - rank) / (n - 1);
+    results.set(p.playerId!, {
+      name: p.name,
+      points: Math.round(PLACEMENT_POINTS * placement * weight),
+      won: rank === 0,
+    });
+  }
+  return results;
+}
+
+/**
+ * Add one game's final standings to every leaderboard period
+ */
+export async function recordLeaderboardResults(players: RankedPlayer[], completedTurns: number, date = new Date()): Promise<void> {
+  const results = computeLeaderboardPoints(players, completedTurns);
+  const ops: AnyBulkWriteOperation<ILeaderboardEntry>[] = [];
+
+  for (const period of LEADERBOARD_PERIODS) {
+    const periodKey = getPeriodKey(period, date);
+    for (const [playerId, result] of results) {
+      ops.push({
+        updateOne: {
+          filter: { period, periodKey, playerId },
+          update: {
+            $inc: { rating: result.points, gamesPlayed: 1, wins: result.won ? 1 : 0 },
+            $set: { name: result.name, updatedAt: date },
+          },
+          upsert: true,
+        },
+      });
+    }
+  }
+
+  if (ops.length > 0) {
+    await LeaderboardEntry.bulkWrite(ops);
+  }
+}
+
+/**
+ * Top entries of the current period
+ */
+export async function getTopEntries(period: LeaderboardPeriod, limit: number) {
+  return LeaderboardEntry.find({ period, periodKey: getPeriodKey(period) })
+    .sort({ rating: -1, wins: -1, updatedAt: 1 })
+    .limit(limit)
+    .lean();
+}
+
+/**
+ * A player's entry and 1-based rank in the current period, or null
+ */
+export async function getPlayerRank(period: LeaderboardPeriod, playerId: string) {
+  const periodKey = getPeriodKey(period);
+  const entry = await LeaderboardEntry.findOne({ period, periodKey, playerId }).lean();
+  if (!entry) return null;
+
+  const ahead = await LeaderboardEntry.countDocuments({ period, periodKey, rating: { $gt: entry.rating } });
+  return { rank: ahead + 1, entry };
+}
@@ -0,0 +1,118 @@
+import { Match, type IMatch, type TurnRecord } from '../models/Match.js';
+import type { Player } from '../models/Room.js';
+
+// Match history: turns are collected on the room during a game and
+// written out as a single Match document at game over.
+
+type HistoryPlayer = Pick<Player, 'sessionId' | 'playerId' | 'name' | 'score' | 'team'>;
+
+/**
+ * Snapshot the turn that just ended from the room's live state
+ */
+export function buildTurnRecord(room: any, drawer: HistoryPlayer | undefined, drawerBonus: number): TurnRecord | undefined {
+  if (!drawer) return undefined;
+
+  const guesses = (room.correctGuessers ?? []).flatMap((sessionId: string) => {
+    const player = room.players.find((p: HistoryPlayer) => p.sessionId === sessionId);
+    if (!player) return [];
+    return [{
+      sessionId,
+      ...(player.playerId ? { playerId: player.playerId } : {}),
+      name: player.name,
+      timeMs: room.guessTimes?.get(sessionId) ?? 0,
+      points: room.roundPoints?.get(sessionId) ?? 0,
+    }];
+  });
+
+  return {
+    ...(room.currentTurnId ? { turnId: room.currentTurnId } : {}),
+    round: room.round || 1,
+    drawerSessionId: drawer.sessionId,
+    ...(drawer.playerId ? { drawerPlayerId: drawer.playerId } : {}),
+    drawerName: drawer.name,
+    word: room.currentWord || '',
+    guesses,
+    hintsRevealed: room.revealedLetters?.length ?? 0,
+    drawerBonus,
+    ...(room.drawingStartedAt ? { startedAt: room.drawingStartedAt } : {}),
+    endedAt: new Date(),
+  };
+}
+
+/**
+ * Write the finished game to the match history
+ */
+export async function recordMatch(
+  room: any,
+  players: HistoryPlayer[],
+  teams: { team: number; score: number }[],
+  turns: TurnRecord[]
+): Promise<IMatch> {
+  return Match.create({
+    roomId: room.roomId,
+    settings: {
+      maxRounds: room.maxRounds,
+      drawTime: room.drawTime,
+      wordCount: room.wordCount,
+      customWordProbability: room.customWordProbability,
+      language: room.language,
+      teamMode: room.teamMode,
+      teamCount: room.teamCount,
+      teamStealing: room.teamStealing,
+    },
+    players: players.map(p => ({
+      sessionId: p.sessionId,
+      playerId: p.playerId,
+      name: p.name,
+      finalScore: p.score || 0,
+      team: p.team,
+    })),
+    playerIds: [...new Set(players.flatMap(p => (p.playerId ? [p.playerId] : [])))],
+    teams: teams.map(t => ({ team: t.team, score: t.score })),
+    turns,
+    startedAt: room.gameStartedAt,
+    endedAt: new Date(),
+  });
+}
+
+/**
+ * Short listing entry for a player's recent matches
+ */
+export function toMatchSummary(match: IMatch, playerId: string) {
+  const me = match.players.find(p => p.playerId === playerId);
+  const ranked = [...match.players].sort((a, b) => b.finalScore - a.finalScore);
+
+  return {
+    matchId: match._id,
+    roomId: match.roomId,
+    playerCount: match.players.length,
+    turnCount: match.turns.length,
+    finalScore: me?.finalScore ?? 0,
+    placement: me ? ranked.findIndex(p => p.finalScore === me.finalScore) + 1 : null,
+    winner: ranked[0]?.name ?? null,
+    startedAt: match.startedAt,
+    endedAt: match.endedAt,
+  };
+}
+
+type MatchData = Pick<IMatch, 'roomId' | 'settings' | 'players' | 'teams' | 'turns' | 'startedAt' | 'endedAt'> & { _id: unknown };
+
+/**
+ * Full match for the public API. Session ids are left out: a session id
+ * resumes the player's seat in a room, so it must never be published.
+ */
+export function toMatchDetail(match: MatchData) {
+  return {
+    matchId: String(match._id),
+    roomId: match.roomId,
+    settings: match.settings,
+    players: match.players.map(({ sessionId, ...player }) => player),
+    teams: match.teams,
+    turns: match.turns.map(({ drawerSessionId, guesses, ...turn }) => ({
+      ...turn,
+      guesses: guesses.map(({ sessionId, ...guess }) => guess),
+    })),
+    startedAt: match.startedAt,
+    endedAt: match.endedAt,
+  };
+}
@@ -0,0 +1,46 @@
+import { ModerationLog, type IModerationLog } from '../models/ModerationLog.js';
+import { Ban, type IBan } from '../models/Ban.js';
+import type { ChatItem, Player } from '../models/Room.js';
+
+// Audit log and server-wide bans for player reports and the admin API
+
+type LogEntry = Pick<IModerationLog, 'type'> & Partial<Pick<IModerationLog,
+  'actor' | 'roomId' | 'sessionId' | 'name' | 'action' | 'severity' | 'text' | 'detail' | 'reportId'>>;
+
+const REPORT_CHAT_LIMIT = 20;
+
+/**
+ * Append to the audit log without holding up the caller
+ */
+export function logModeration(entry: LogEntry): void {
+  ModerationLog.create(entry).catch(error => {
+    console.error('[MODERATION] Failed to write audit log:', error);
+  });
+}
+
+/**
+ * Ban matching the session or the IP that has not expired yet
+ */
+export async function findActiveBan(sessionId: string | undefined, ip: string | undefined): Promise<IBan | null> {
+  const targets = [
+    ...(sessionId ? [{ sessionId }] : []),
+    ...(ip ? [{ ip }] : []),
+  ];
+  if (targets.length === 0) return null;
+
+  // TTL cleanup is lazy, so expired bans can still be around for a minute
+  return Ban.findOne({
+    $or: targets,
+    $and: [{ $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: new Date() } }] }],
+  });
+}
+
+/**
+ * The reported player's latest messages from the room's chat feed.
+ * Older lines have no session id and are matched by socket id.
+ */
+export function recentChatOf(chat: ChatItem[], player: Pick<Player, 'id' | 'sessionId'>): ChatItem[] {
+  return chat
+    .filter(c => c.sessionId ? c.sessionId === player.sessionId : c.id === player.id)
+    .slice(-REPORT_CHAT_LIMIT);
+}
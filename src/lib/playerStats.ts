@@ -0,0 +1,141 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { AnyBulkWriteOperation } from 'mongoose';
+import { PlayerProfile, type IPlayerProfile } from '../models/PlayerProfile.js';
+import type { Player } from '../models/Room.js';
+
+// Lifetime player statistics, written at the end of each turn and game.
+// Only the fields stats need, so callers can pass any player shape.
+type StatsPlayer = Pick<Player, 'sessionId' | 'playerId' | 'name' | 'score'>;
+
+export interface TurnGuess {
+  player: StatsPlayer;
+  timeMs: number;          // time from drawing start to the correct guess
+}
+
+export interface TurnResult {
+  word: string | undefined;
+  drawer: StatsPlayer | undefined;
+  guesses: TurnGuess[];
+}
+
+const PLAYER_TOKEN_BYTES = 32;
+
+function hashPlayerToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issue a new player id with the secret token that proves ownership of it.
+ * The id is public (leaderboards, profiles); only a hash of the token is
+ * stored, and the token is handed to the client once.
+ */
+export async function issuePlayerId(name: string): Promise<{ playerId: string; playerToken: string }> {
+  const playerId = 'player_' + randomBytes(12).toString('hex');
+  const playerToken = randomBytes(PLAYER_TOKEN_BYTES).toString('base64url');
+  await PlayerProfile.create({ playerId, name, tokenHash: hashPlayerToken(playerToken) });
+  return { playerId, playerToken };
+}
+
+/**
+ * Whether a client-held token belongs to the player id. Ids issued before
+ * tokens existed have none and cannot be claimed.
+ */
+export async function verifyPlayerToken(playerId: unknown, playerToken: unknown): Promise<boolean> {
+  if (typeof playerId !== 'string' || typeof playerToken !== 'string' || !playerToken) return false;
+
+  const profile = await PlayerProfile.findOne({ playerId }).select('+tokenHash').lean();
+  if (!profile?.tokenHash) return false;
+
+  const expected = Buffer.from(profile.tokenHash, 'hex');
+  const actual = Buffer.from(hashPlayerToken(playerToken), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Map keys cannot contain '.' or start with '$' in MongoDB
+function wordKey(word: string): string {
+  return word.trim().toLowerCase().replace(/[.$]/g, '_');
+}
+
+function profileUpdate(player: StatsPlayer, inc: Record<string, number>): AnyBulkWriteOperation<IPlayerProfile> {
+  return {
+    updateOne: {
+      filter: { playerId: player.playerId! },
+      update: {
+        $inc: inc,
+        $set: { name: player.name, lastPlayedAt: new Date() },
+      },
+      upsert: true,
+    },
+  };
+}
+
+/**
+ * Record correct guesses and the drawer's word for one finished turn
+ */
+export async function recordTurnStats(turn: TurnResult): Promise<void> {
+  const ops: AnyBulkWriteOperation<IPlayerProfile>[] = [];
+
+  for (const { player, timeMs } of turn.guesses) {
+    if (!player.playerId) continue;
+    ops.push(profileUpdate(player, { correctGuesses: 1, totalGuessTimeMs: Math.max(0, timeMs) }));
+  }
+
+  if (turn.drawer?.playerId && turn.word) {
+    const key = `wordsDrawn.${wordKey(turn.word)}`;
+    ops.push(profileUpdate(turn.drawer, {
+      turnsDrawn: 1,
+      [`${key}.timesDrawn`]: 1,
+      [`${key}.timesGuessed`]: turn.guesses.length,
+    }));
+  }
+
+  if (ops.length > 0) {
+    await PlayerProfile.bulkWrite(ops);
+  }
+}
+
+/**
+ * Record games played, wins and final points for everyone in a finished game
+ */
+export async function recordGameStats(players: StatsPlayer[], winnerSessionIds: Set<string>): Promise<void> {
+  const ops = players
+    .filter(p => p.playerId)
+    .map(p => profileUpdate(p, {
+      gamesPlayed: 1,
+      wins: winnerSessionIds.has(p.sessionId) ? 1 : 0,
+      totalPoints: p.score || 0,
+    }));
+
+  if (ops.length > 0) {
+    await PlayerProfile.bulkWrite(ops);
+  }
+}
+
+/**
+ * Shape a profile for the REST API
+ */
+export function toPublicProfile(profile: IPlayerProfile) {
+  const wordsDrawn = Array.from(profile.wordsDrawn?.entries() ?? [])
+    .map(([word, stats]) => ({
+      word,
+      timesDrawn: stats.timesDrawn,
+      timesGuessed: stats.timesGuessed,
+    }))
+    .sort((a, b) => b.timesDrawn - a.timesDrawn);
+
+  return {
+    playerId: profile.playerId,
+    name: profile.name,
+    gamesPlayed: profile.gamesPlayed,
+    wins: profile.wins,
+    totalPoints: profile.totalPoints,
+    correctGuesses: profile.correctGuesses,
+    averageGuessTimeMs: profile.correctGuesses > 0
+      ? Math.round(profile.totalGuessTimeMs / profile.correctGuesses)
+      : null,
+    turnsDrawn: profile.turnsDrawn,
+    wordsDrawn,
+    createdAt: profile.createdAt,
+    lastPlayedAt: profile.lastPlayedAt,
+  };
+}
@@ -1,79 +1,305 @@
-// Profanity filter for chat messages
-const PROFANITY_LIST = [
-  // Common profanity (add more as needed)
-  'fuck', 'shit', 'bitch', 'ass', 'damn', 'hell', 'crap', 'piss',
-  'dick', 'cock', 'pussy', 'cunt', 'bastard', 'whore', 'slut',
-  'fag', 'nigger', 'nigga', 'retard', 'rape', 'sex', 'porn',
-  // Variations and leetspeak
-  'f*ck', 'sh*t', 'b*tch', 'a$$', 'fuk', 'fck', 'sht', 'btch',
-  'azz', 'arse', 'asshole', 'a**hole', 'dumbass', 'jackass',
-  // Offensive terms
-  'idiot', 'stupid', 'moron', 'dumb', 'loser', 'noob', 'trash',
-  'kill yourself', 'kys', 'die', 'cancer', 'aids',
+// Moderation pipeline for chat messages and player names:
+//   1. normalize each token (Unicode confusables, accents, leetspeak, stretched letters)
+//   2. match whole tokens (and runs of spaced-out letters) against the term list
+//      of the room's language
+//   3. skip allowlisted words
+//   4. map the worst severity found to an action for the room's strictness
+
+export type ModerationLevel = 'relaxed' | 'standard' | 'strict';
+export type Severity = 'mild' | 'severe' | 'extreme';
+export type ModerationAction = 'allow' | 'mask' | 'block' | 'mute';
+
+export interface ModerationResult {
+  action: ModerationAction;
+  text: string;                                // masked text when action is 'mask'
+  reason?: 'empty' | 'too_long' | 'spam' | 'profanity';
+  severity?: Severity;
+}
+
+export const MODERATION_LEVELS: ModerationLevel[] = ['relaxed', 'standard', 'strict'];
+export const DEFAULT_MODERATION_LEVEL: ModerationLevel = 'standard';
+
+const MAX_MESSAGE_LENGTH = 200;
+
+const DEFAULT_LANGUAGE = 'en';
+
+type TermList = Partial<Record<Severity, string[]>>;
+
+// English profanity turns up in chat in any language, so every room checks it
+const COMMON_TERMS: TermList = {
+  severe: [
+    'fuck', 'fuk', 'fck', 'shit', 'sht', 'bitch', 'btch', 'ass', 'azz', 'arse', 'asshole',
+    'dumbass', 'jackass', 'piss', 'dick', 'cock', 'pussy', 'bastard', 'whore', 'slut',
+    'sex', 'porn',
+  ],
+  extreme: [
+    'cunt', 'fag', 'faggot', 'nigger', 'nigga', 'retard', 'rape', 'kill yourself', 'kys',
+  ],
+};
+
+// Terms of each room language. Mild English words such as 'die' and 'hell'
+// are ordinary words elsewhere, so they only apply in English rooms.
+const LANGUAGE_TERMS: Record<string, TermList> = {
+  en: {
+    mild: [
+      'damn', 'hell', 'crap', 'idiot', 'stupid', 'moron', 'dumb', 'loser', 'noob', 'trash',
+      'die', 'cancer', 'aids',
+    ],
+  },
+  es: {
+    mild: ['idiota', 'estupido', 'tonto', 'imbecil'],
+    severe: ['mierda', 'puta', 'joder', 'cabron', 'gilipollas', 'pendejo'],
+    extreme: ['maricon'],
+  },
+  fr: {
+    mild: ['idiot', 'stupide', 'abruti', 'debile'],
+    severe: ['merde', 'putain', 'connard', 'salope', 'encule'],
+    extreme: ['nique ta mere'],
+  },
+  de: {
+    mild: ['idiot', 'dumm', 'doof', 'depp'],
+    severe: ['scheiße', 'scheisse', 'arschloch', 'hurensohn', 'wichser', 'schlampe'],
+    extreme: ['fotze'],
+  },
+  ru: {
+    mild: ['дурак', 'идиот', 'тупой'],
+    severe: ['сука', 'блядь', 'бля', 'хуй', 'пизда', 'мудак'],
+    extreme: ['пидор'],
+  },
+};
+
+// Words that normalize or inflect into a term but are fine
+const COMMON_ALLOWLIST = [
+  'class', 'assume', 'assess', 'assessment', 'bass', 'shell', 'hello', 'diet', 'dice',
+  'cocktail', 'peacock', 'cocker', 'scrap', 'grape', 'therapist', 'sussex', 'essex',
 ];
 
-/**
- * Check if a message contains profanity
- */
-export function containsProfanity(message: string): boolean {
-  const lowerMessage = message.toLowerCase();
-  
-  // Check for exact matches and word boundaries
-  for (const word of PROFANITY_LIST) {
-    // Create regex with word boundaries to avoid false positives
-    const regex = new RegExp(`\\b${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
-    if (regex.test(lowerMessage)) {
-      return true;
+// Ordinary words of a language that collide with the common English terms
+const LANGUAGE_ALLOWLIST: Record<string, string[]> = {
+  de: ['dick', 'dicke', 'dicker', 'ass', 'asse'],          // thick, ace
+  fr: ['retard', 'retards', 'rape', 'rapé', 'râpe', 'râpé'], // delay, grater/grated
+};
+
+// Inflections that still count as the term (fucking, shits, bitchy)
+const SUFFIXES = ['s', 'es', 'ed', 'er', 'ers', 'ing', 'in', 'y'];
+
+const ACTIONS: Record<ModerationLevel, Record<Severity, ModerationAction>> = {
+  relaxed: { mild: 'allow', severe: 'mask', extreme: 'block' },
+  standard: { mild: 'mask', severe: 'mask', extreme: 'block' },
+  strict: { mild: 'mask', severe: 'block', extreme: 'mute' },
+};
+
+const SEVERITY_RANK: Record<Severity, number> = { mild: 1, severe: 2, extreme: 3 };
+
+// Look-alike letters from other scripts and leetspeak digits/symbols
+const CHAR_MAP: Record<string, string> = {
+  // Cyrillic
+  'а': 'a', 'в': 'b', 'ԁ': 'd', 'е': 'e', 'һ': 'h', 'н': 'h', 'і': 'i', 'ј': 'j', 'к': 'k',
+  'м': 'm', 'о': 'o', 'р': 'p', 'с': 'c', 'ѕ': 's', 'т': 't', 'у': 'y', 'х': 'x',
+  // Greek
+  'α': 'a', 'ε': 'e', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't', 'υ': 'u',
+  // Leetspeak
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g',
+  '@': 'a', '$': 's', '!': 'i', '|': 'i', '+': 't',
+};
+
+// Characters that can be part of a token; '*' stands for a hidden letter (f*ck)
+const TOKEN_PATTERN = /[\p{L}\p{N}\p{M}@$!|+*]+/gu;
+
+function normalizeToken(raw: string): string {
+  const folded = raw.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+  return [...folded].map(c => CHAR_MAP[c] ?? c).join('');
+}
+
+// "fuuuuck" -> "fuck"
+function collapseRepeats(word: string): string {
+  return word.replace(/(.)\1+/g, '$1');
+}
+
+// Normalized terms and allowlist of one room language
+interface TermSet {
+  severity: Map<string, Severity>;
+  collapsed: Map<string, Severity>;
+  allow: Set<string>;
+  maxWords: number;
+}
+
+function buildTermSet(language: string): TermSet {
+  const severity = new Map<string, Severity>();
+  const collapsed = new Map<string, Severity>();
+  for (const list of [COMMON_TERMS, LANGUAGE_TERMS[language] ?? {}]) {
+    for (const level of Object.keys(list) as Severity[]) {
+      for (const term of list[level] ?? []) {
+        const normalized = term.split(' ').map(normalizeToken).join(' ');
+        severity.set(normalized, level);
+        collapsed.set(normalized.split(' ').map(collapseRepeats).join(' '), level);
+      }
     }
-    
-    // Also check for the word with spaces or special chars around it
-    if (lowerMessage.includes(word)) {
-      return true;
+  }
+
+  return {
+    severity,
+    collapsed,
+    allow: new Set([...COMMON_ALLOWLIST, ...(LANGUAGE_ALLOWLIST[language] ?? [])].map(normalizeToken)),
+    maxWords: Math.max(...[...severity.keys()].map(t => t.split(' ').length)),
+  };
+}
+
+// Unknown languages get the English terms
+const TERM_SETS = new Map(Object.keys(LANGUAGE_TERMS).map(language => [language, buildTermSet(language)]));
+
+function getTermSet(language: string): TermSet {
+  return TERM_SETS.get(language) ?? TERM_SETS.get(DEFAULT_LANGUAGE)!;
+}
+
+// Term itself or the term plus an inflection
+function lookup(word: string, terms: Map<string, Severity>): Severity | undefined {
+  const direct = terms.get(word);
+  if (direct) return direct;
+
+  for (const suffix of SUFFIXES) {
+    if (word.length > suffix.length + 2 && word.endsWith(suffix)) {
+      const stem = terms.get(word.slice(0, -suffix.length));
+      if (stem) return stem;
     }
   }
-  
-  return false;
+  return undefined;
+}
+
+// '*' matches any single letter of a term with the same length
+function matchWildcard(word: string, terms: TermSet): Severity | undefined {
+  const pattern = new RegExp(`^${word.replace(/\*/g, '.')}$`);
+  for (const [term, severity] of terms.severity) {
+    if (!term.includes(' ') && pattern.test(term)) return severity;
+  }
+  return undefined;
+}
+
+function matchWord(word: string, terms: TermSet): Severity | undefined {
+  if (terms.allow.has(word)) return undefined;
+  if (word.includes('*')) {
+    return /[^*]/.test(word) ? matchWildcard(word, terms) : undefined;
+  }
+
+  const severity = lookup(word, terms.severity);
+  if (severity) return severity;
+
+  // Stretched letters only count when the word actually had repeats
+  const collapsed = collapseRepeats(word);
+  if (collapsed !== word && !terms.allow.has(collapsed)) {
+    return lookup(collapsed, terms.collapsed);
+  }
+  return undefined;
+}
+
+interface Token {
+  start: number;
+  end: number;
+  word: string;                                // normalized
+}
+
+// Tokens with their position in the original text. Punctuation around a
+// word is not part of it, and runs of single letters ("f u c k") are joined.
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let letters: Token | null = null;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const raw = match[0].replace(/^[!|+]+|[!|+]+$/g, '');
+    if (!raw) continue;
+    const start = match.index! + match[0].indexOf(raw);
+    const token = { start, end: start + raw.length, word: normalizeToken(raw) };
+
+    if ([...token.word].length === 1) {
+      letters = letters
+        ? { start: letters.start, end: token.end, word: letters.word + token.word }
+        : token;
+      continue;
+    }
+    if (letters) tokens.push(letters);
+    letters = null;
+    tokens.push(token);
+  }
+  if (letters) tokens.push(letters);
+  return tokens;
+}
+
+// Replace the letters of matched spans with asterisks, keeping spacing
+function maskSpans(text: string, spans: { start: number; end: number }[]): string {
+  let masked = '';
+  let at = 0;
+  for (const c of text) {
+    const inSpan = spans.some(s => at >= s.start && at < s.end);
+    masked += inSpan && /\S/.test(c) ? '*' : c;
+    at += c.length;
+  }
+  return masked;
 }
 
 /**
- * Filter profanity from a message by replacing with asterisks
+ * Find terms of a room language in a text: the worst severity and the spans to mask
  */
-export function filterProfanity(message: string): string {
-  let filtered = message;
-  
-  for (const word of PROFANITY_LIST) {
-    const regex = new RegExp(`\\b${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi');
-    filtered = filtered.replace(regex, (match) => '*'.repeat(match.length));
+export function scanText(text: string, language = DEFAULT_LANGUAGE): { severity?: Severity; spans: { start: number; end: number }[] } {
+  const terms = getTermSet(language);
+  const tokens = tokenize(text);
+  const spans: { start: number; end: number }[] = [];
+  let worst: Severity | undefined;
+
+  for (let i = 0; i < tokens.length; i++) {
+    for (let n = Math.min(terms.maxWords, tokens.length - i); n >= 1; n--) {
+      const run = tokens.slice(i, i + n);
+      const severity = n === 1 ? matchWord(run[0]!.word, terms) : terms.severity.get(run.map(t => t.word).join(' '));
+      if (!severity) continue;
+
+      spans.push({ start: run[0]!.start, end: run[n - 1]!.end });
+      if (!worst || SEVERITY_RANK[severity] > SEVERITY_RANK[worst]) worst = severity;
+      break;
+    }
   }
-  
-  return filtered;
+
+  return worst ? { severity: worst, spans } : { spans };
+}
+
+export function isModerationLevel(value: unknown): value is ModerationLevel {
+  return typeof value === 'string' && (MODERATION_LEVELS as string[]).includes(value);
 }
 
 /**
- * Validate and clean a message
- * Returns null if message should be blocked, otherwise returns cleaned message
+ * Run a chat message through the pipeline for a room's strictness and language
  */
-export function validateMessage(message: string): string | null {
-  if (!message || message.trim().length === 0) {
-    return null;
-  }
-  
-  const trimmed = message.trim();
-  
-  // Check length
-  if (trimmed.length > 200) {
-    return null;
-  }
-  
+export function moderateMessage(
+  message: string,
+  level: ModerationLevel = DEFAULT_MODERATION_LEVEL,
+  language = DEFAULT_LANGUAGE
+): ModerationResult {
+  const trimmed = (message ?? '').trim();
+  if (!trimmed) return { action: 'block', text: '', reason: 'empty' };
+  if (trimmed.length > MAX_MESSAGE_LENGTH) return { action: 'block', text: trimmed, reason: 'too_long' };
+
   // Check for spam (repeated characters)
-  if (/(.)\1{10,}/.test(trimmed)) {
-    return null;
-  }
-  
-  // Filter profanity
-  if (containsProfanity(trimmed)) {
-    return filterProfanity(trimmed);
-  }
-  
-  return trimmed;
+  if (/(.)\1{10,}/.test(trimmed)) return { action: 'block', text: trimmed, reason: 'spam' };
+
+  const { severity, spans } = scanText(trimmed, language);
+  if (!severity) return { action: 'allow', text: trimmed };
+
+  const action = ACTIONS[level][severity];
+  return {
+    action,
+    text: action === 'mask' ? maskSpans(trimmed, spans) : trimmed,
+    reason: 'profanity',
+    severity,
+  };
+}
+
+/**
+ * Player names cannot be masked sensibly: anything the room would not
+ * let through untouched is rejected. Returns the cleaned name or null.
+ */
+export function moderateName(
+  name: string,
+  level: ModerationLevel = DEFAULT_MODERATION_LEVEL,
+  language = DEFAULT_LANGUAGE
+): string | null {
+  const result = moderateMessage(name, level, language);
+  return result.action === 'allow' ? result.text : null;
 }
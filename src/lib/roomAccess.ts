@@ -0,0 +1,37 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+// Room passwords and invite tokens. Hashing runs on the libuv thread pool,
+// so password attempts do not block the event loop.
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+/**
+ * Hash a room password as "salt:hash" (scrypt, hex encoded)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES).toString('hex');
+  const hash = (await scryptAsync(password, salt, KEY_BYTES)).toString('hex');
+  return `${salt}:${hash}`;
+}
+
+/**
+ * Check a password against a stored "salt:hash" value
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, salt, expected.length);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Generate a URL-safe invite token
+ */
+export function generateInviteToken(): string {
+  return randomBytes(16).toString('base64url');
+}
@@ -0,0 +1,79 @@
+import type { Stroke, StrokeTool } from '../models/Room.js';
+
+// Stroke schema shared by the draw protocol, persistence and the SVG renderer.
+// Coordinates are canvas pixels on a CANVAS_WIDTH x CANVAS_HEIGHT board.
+
+export const CANVAS_WIDTH = 800;
+export const CANVAS_HEIGHT = 600;
+export const CANVAS_BACKGROUND = '#ffffff';
+
+export const MAX_STROKES = 2000;     // per drawing
+const MAX_POINTS_PER_STROKE = 5000;  // numbers, i.e. 2500 coordinates
+const MIN_WIDTH = 1;
+const MAX_WIDTH = 100;
+
+const TOOLS: StrokeTool[] = ['pen', 'eraser', 'fill'];
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const STROKE_ID = /^[\w-]{1,64}$/;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function generateStrokeId() {
+  return 'stroke_' + Math.random().toString(36).substring(2, 15) + Date.now().toString(36);
+}
+
+/**
+ * Validate one stroke and bring it to canonical form.
+ * Accepts the common client aliases `stroke` (colour) and `strokeWidth`/`size` (width).
+ * Segments of one gesture share an id (the unit of undo); strokes without one get a fresh id.
+ * Returns null when the stroke is malformed.
+ */
+export function normalizeStroke(raw: unknown): Stroke | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const input = raw as Record<string, unknown>;
+
+  const tool = (input.tool ?? 'pen') as StrokeTool;
+  if (!TOOLS.includes(tool)) return null;
+
+  const color = input.color ?? input.stroke;
+  if (typeof color !== 'string' || !HEX_COLOR.test(color)) return null;
+
+  const points = input.points;
+  if (!Array.isArray(points) || points.length < 2 || points.length % 2 !== 0) return null;
+  if (points.length > MAX_POINTS_PER_STROKE) return null;
+  if (tool === 'fill' && points.length !== 2) return null;
+  if (!points.every(n => typeof n === 'number' && Number.isFinite(n))) return null;
+
+  const width = Number(input.width ?? input.strokeWidth ?? input.size ?? MIN_WIDTH);
+  if (!Number.isFinite(width)) return null;
+
+  const id = typeof input.id === 'string' && STROKE_ID.test(input.id) ? input.id : generateStrokeId();
+
+  return {
+    id,
+    tool,
+    points: points.map((n: number, i: number) =>
+      Math.round(clamp(n, 0, i % 2 === 0 ? CANVAS_WIDTH : CANVAS_HEIGHT) * 10) / 10
+    ),
+    color: color.toLowerCase(),
+    width: clamp(Math.round(width), MIN_WIDTH, MAX_WIDTH),
+  };
+}
+
+/**
+ * Validate a whole drawing; null if it is not an array, too large,
+ * or contains any malformed stroke
+ */
+export function normalizeStrokes(raw: unknown): Stroke[] | null {
+  if (!Array.isArray(raw) || raw.length > MAX_STROKES) return null;
+
+  const strokes: Stroke[] = [];
+  for (const item of raw) {
+    const stroke = normalizeStroke(item);
+    if (!stroke) return null;
+    strokes.push(stroke);
+  }
+  return strokes;
+}
@@ -0,0 +1,217 @@
+import type { Stroke } from '../models/Room.js';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, CANVAS_BACKGROUND } from './strokes.js';
+
+// Server-side SVG export of stroke drawings.
+// Pen and eraser strokes become vector paths. Fill-bucket strokes have no
+// vector equivalent, so the drawing is also rasterised into a colour grid,
+// the bucket is flood-filled there and the filled area is written out as
+// one path of pixel runs. Each fill costs a pass over the canvas, so only
+// the first MAX_RENDERED_FILLS fills are rendered. Only strokes drawn before
+// the last rendered fill are rasterised, and all raster work of one render
+// (brush dabs and fills, counted in cells) is capped at MAX_RASTER_CELLS.
+// Fills past the cap are left out.
+
+export const MAX_RENDERED_FILLS = 50;
+export const MAX_RASTER_CELLS = 20_000_000;
+
+// Filled cells and the box around them
+interface FillMask {
+  cells: Uint8Array;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+interface RenderOptions {
+  width?: number;
+  height?: number;
+  background?: string;
+}
+
+class ColorGrid {
+  readonly cells: Int32Array;
+  private readonly palette: string[] = [];
+
+  constructor(readonly width: number, readonly height: number, background: string) {
+    this.cells = new Int32Array(width * height).fill(this.colorIndex(background));
+  }
+
+  colorIndex(color: string): number {
+    let idx = this.palette.indexOf(color);
+    if (idx === -1) {
+      idx = this.palette.length;
+      this.palette.push(color);
+    }
+    return idx;
+  }
+
+  // Paint a round brush dab centred at (cx, cy)
+  stamp(cx: number, cy: number, radius: number, colorIdx: number) {
+    const r = Math.max(0.5, radius);
+    const minX = Math.max(0, Math.floor(cx - r));
+    const maxX = Math.min(this.width - 1, Math.ceil(cx + r));
+    const minY = Math.max(0, Math.floor(cy - r));
+    const maxY = Math.min(this.height - 1, Math.ceil(cy + r));
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        const dx = x + 0.5 - cx;
+        const dy = y + 0.5 - cy;
+        if (dx * dx + dy * dy <= r * r) {
+          this.cells[y * this.width + x] = colorIdx;
+        }
+      }
+    }
+  }
+
+  // Cells a line() call visits, without drawing it
+  lineCost(points: number[], radius: number): number {
+    const step = Math.max(1, radius / 2);
+    const side = 2 * Math.ceil(Math.max(0.5, radius)) + 1;
+    let dabs = 0;
+    for (let i = 0; i + 1 < points.length; i += 2) {
+      const x0 = points[i]!;
+      const y0 = points[i + 1]!;
+      const length = Math.hypot((points[i + 2] ?? x0) - x0, (points[i + 3] ?? y0) - y0);
+      dabs += Math.max(1, Math.ceil(length / step)) + 1;
+    }
+    return dabs * side * side;
+  }
+
+  line(points: number[], radius: number, colorIdx: number) {
+    const step = Math.max(1, radius / 2);
+    for (let i = 0; i + 1 < points.length; i += 2) {
+      const x0 = points[i]!;
+      const y0 = points[i + 1]!;
+      const x1 = points[i + 2] ?? x0;
+      const y1 = points[i + 3] ?? y0;
+      const length = Math.hypot(x1 - x0, y1 - y0);
+      const steps = Math.max(1, Math.ceil(length / step));
+      for (let s = 0; s <= steps; s++) {
+        this.stamp(x0 + ((x1 - x0) * s) / steps, y0 + ((y1 - y0) * s) / steps, radius, colorIdx);
+      }
+    }
+  }
+
+  // Scanline flood fill; returns the mask of filled cells
+  floodFill(sx: number, sy: number, colorIdx: number): FillMask | null {
+    const x = Math.min(this.width - 1, Math.max(0, Math.floor(sx)));
+    const y = Math.min(this.height - 1, Math.max(0, Math.floor(sy)));
+    const target = this.cells[y * this.width + x]!;
+    if (target === colorIdx) return null;
+
+    const mask: FillMask = { cells: new Uint8Array(this.width * this.height), minX: x, maxX: x, minY: y, maxY: y };
+    const stack: number[] = [x, y];
+    while (stack.length > 0) {
+      const cy = stack.pop()!;
+      let cx = stack.pop()!;
+      while (cx > 0 && this.cells[cy * this.width + cx - 1] === target) cx--;
+
+      let spanUp = false;
+      let spanDown = false;
+      mask.minX = Math.min(mask.minX, cx);
+      mask.minY = Math.min(mask.minY, cy);
+      mask.maxY = Math.max(mask.maxY, cy);
+      for (; cx < this.width && this.cells[cy * this.width + cx] === target; cx++) {
+        const idx = cy * this.width + cx;
+        this.cells[idx] = colorIdx;
+        mask.cells[idx] = 1;
+        mask.maxX = Math.max(mask.maxX, cx);
+
+        if (cy > 0) {
+          const up = this.cells[idx - this.width] === target;
+          if (up && !spanUp) stack.push(cx, cy - 1);
+          spanUp = up;
+        }
+        if (cy < this.height - 1) {
+          const down = this.cells[idx + this.width] === target;
+          if (down && !spanDown) stack.push(cx, cy + 1);
+          spanDown = down;
+        }
+      }
+    }
+    return mask;
+  }
+}
+
+function fmt(n: number): string {
+  return String(Math.round(n * 10) / 10);
+}
+
+function strokePath(stroke: Stroke, color: string): string {
+  const { points, width } = stroke;
+  if (points.length === 2) {
+    return `<circle cx="${fmt(points[0]!)}" cy="${fmt(points[1]!)}" r="${fmt(width / 2)}" fill="${color}"/>`;
+  }
+
+  let d = `M${fmt(points[0]!)} ${fmt(points[1]!)}`;
+  for (let i = 2; i + 1 < points.length; i += 2) {
+    d += `L${fmt(points[i]!)} ${fmt(points[i + 1]!)}`;
+  }
+  return `<path d="${d}" fill="none" stroke="${color}" stroke-width="${width}" stroke-linecap="round" stroke-linejoin="round"/>`;
+}
+
+// Filled cells as horizontal runs, one subpath per run
+function maskPath(mask: FillMask, width: number, color: string): string {
+  const { cells } = mask;
+  let d = '';
+  for (let y = mask.minY; y <= mask.maxY; y++) {
+    let x = mask.minX;
+    while (x <= mask.maxX) {
+      if (!cells[y * width + x]) {
+        x++;
+        continue;
+      }
+      const start = x;
+      while (x <= mask.maxX && cells[y * width + x]) x++;
+      d += `M${start} ${y}h${x - start}v1h${start - x}z`;
+    }
+  }
+  return d ? `<path d="${d}" fill="${color}" shape-rendering="crispEdges"/>` : '';
+}
+
+/**
+ * Render strokes as a standalone SVG document. Fills past
+ * MAX_RENDERED_FILLS or past the raster budget are left out.
+ */
+export function renderStrokesToSvg(strokes: Stroke[], options: RenderOptions = {}): string {
+  const width = options.width ?? CANVAS_WIDTH;
+  const height = options.height ?? CANVAS_HEIGHT;
+  const background = options.background ?? CANVAS_BACKGROUND;
+
+  // The raster is only read by fills, so strokes after the last rendered
+  // fill are never rasterised, and there is no raster without fills
+  const fillIndices = strokes.flatMap((s, i) => (s.tool === 'fill' ? [i] : []));
+  const lastFill = fillIndices[Math.min(fillIndices.length, MAX_RENDERED_FILLS) - 1] ?? -1;
+  const grid = lastFill >= 0 ? new ColorGrid(width, height, background) : null;
+  let budget = MAX_RASTER_CELLS;
+
+  const elements: string[] = [`<rect width="${width}" height="${height}" fill="${background}"/>`];
+  for (const [i, stroke] of strokes.entries()) {
+    if (stroke.tool === 'fill') {
+      // A fill may visit every cell; once the budget is spent the raster is
+      // stale, so no later fill can be rendered either
+      if (!grid || i > lastFill || budget < width * height) continue;
+      budget -= width * height;
+      const mask = grid.floodFill(stroke.points[0]!, stroke.points[1]!, grid.colorIndex(stroke.color));
+      if (mask) elements.push(maskPath(mask, width, stroke.color));
+      continue;
+    }
+
+    const color = stroke.tool === 'eraser' ? background : stroke.color;
+    if (grid && i < lastFill && budget > 0) {
+      const radius = stroke.width / 2;
+      const cost = grid.lineCost(stroke.points, radius);
+      budget -= cost;
+      if (budget >= 0) grid.line(stroke.points, radius, grid.colorIndex(color));
+    }
+    elements.push(strokePath(stroke, color));
+  }
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    ...elements,
+    `</svg>`,
+  ].join('\n');
+}
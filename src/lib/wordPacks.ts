@@ -0,0 +1,139 @@
+import type { WordPackWord } from '../models/WordPack.js';
+import { displayWord, isWordDifficulty, parseWordEntry } from './words.js';
+import { moderateName } from './profanityFilter.js';
+
+// Parsing and validation of player-made word packs. Packs are shared
+// between rooms, so they are checked at the strictest moderation level
+// against the terms of the pack's language.
+
+export const WORD_PACK_NAME_MAX = 40;
+export const WORD_PACK_MAX_WORDS = 500;
+const WORD_MAX_LENGTH = 40;
+
+export type WordPackFormat = 'json' | 'csv';
+
+export interface WordPackImport {
+  name?: string;
+  language?: string;
+  words: unknown;
+}
+
+/**
+ * Words as sent by clients: plain strings or { word, difficulty } objects.
+ * Unknown difficulty tags are dropped; null if the list is not an array.
+ */
+export function parsePackWords(raw: unknown): WordPackWord[] | null {
+  if (!Array.isArray(raw)) return null;
+
+  const words: WordPackWord[] = [];
+  for (const item of raw) {
+    const word = typeof item === 'string' ? item : typeof item?.word === 'string' ? item.word : undefined;
+    if (word === undefined) continue;
+    const difficulty = typeof item === 'object' ? item.difficulty : undefined;
+    words.push(isWordDifficulty(difficulty) ? { word, difficulty } : { word });
+  }
+  return words;
+}
+
+// One CSV line split on commas outside double quotes ("" is a literal quote)
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  fields.push(field);
+  return fields.map(f => f.trim());
+}
+
+/**
+ * CSV import: one word per line with an optional difficulty column
+ * ("word,difficulty"). A "word" header line is skipped.
+ */
+export function parseCsvWords(text: string): WordPackWord[] {
+  const rows = text.split(/\r?\n/).map(splitCsvLine).filter(row => row[0]);
+  if (rows[0]?.[0]?.toLowerCase() === 'word') rows.shift();
+  return parsePackWords(rows.map(([word, difficulty]) => ({ word, difficulty })))!;
+}
+
+/**
+ * JSON import: either a list of words or an object with name, language
+ * and words (a pack exported from GET /word-packs/:packId). Null if the
+ * text is not valid JSON of either shape.
+ */
+export function parseJsonImport(text: string): WordPackImport | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  if (Array.isArray(data)) return { words: data };
+  if (!data || typeof data !== 'object' || !('words' in data)) return null;
+
+  const { name, language, words } = data as Record<string, unknown>;
+  return {
+    ...(typeof name === 'string' ? { name } : {}),
+    ...(typeof language === 'string' ? { language } : {}),
+    words,
+  };
+}
+
+/**
+ * Trim and lowercase a pack's words (like room custom words), drop
+ * duplicates and over-long entries, and collect the words the filter
+ * rejects. Every alternate answer is checked, not only the shown word.
+ */
+export function cleanPackWords(words: WordPackWord[], language?: string): { words: WordPackWord[]; rejected: string[] } {
+  const cleaned: WordPackWord[] = [];
+  const rejected: string[] = [];
+  const seen = new Set<string>();
+
+  for (const { word, difficulty } of words) {
+    const answers = parseWordEntry(word.toLowerCase());
+    const entry = answers.join('|');
+    if (!entry || entry.length > WORD_MAX_LENGTH) continue;
+
+    if (answers.some(answer => moderateName(answer, 'strict', language) === null)) {
+      rejected.push(entry);
+      continue;
+    }
+
+    const shown = displayWord(entry);
+    if (seen.has(shown)) continue;
+    seen.add(shown);
+    cleaned.push(difficulty ? { word: entry, difficulty } : { word: entry });
+  }
+
+  return { words: cleaned, rejected };
+}
+
+/**
+ * Pack name, or null if it is empty, too long or fails the filter
+ */
+export function cleanPackName(name: unknown, language?: string): string | null {
+  if (typeof name !== 'string') return null;
+  const trimmed = name.trim();
+  if (!trimmed || trimmed.length > WORD_PACK_NAME_MAX) return null;
+  return moderateName(trimmed, 'strict', language);
+}
@@ -1,32 +1,184 @@
-import wordsData from '../data/words.json' with { type: 'json' };
+import en from '../data/words/en.json' with { type: 'json' };
+import es from '../data/words/es.json' with { type: 'json' };
+import fr from '../data/words/fr.json' with { type: 'json' };
+import de from '../data/words/de.json' with { type: 'json' };
+import ru from '../data/words/ru.json' with { type: 'json' };
+
+// One dictionary per locale, all with the same categories and difficulty levels
+// (typed after the English one, so a locale missing a category does not compile)
+type WordDictionary = typeof en;
+export type WordCategory = keyof WordDictionary['categories'];
+export type WordDifficulty = keyof WordDictionary['difficulty'];
+
+const DICTIONARIES: Record<string, WordDictionary> = { en, es, fr, de, ru };
+
+export const DEFAULT_LANGUAGE = 'en';
+export const SUPPORTED_LANGUAGES = Object.keys(DICTIONARIES);
+export const CATEGORY_NAMES = Object.keys(en.categories) as WordCategory[];
+const DIFFICULTIES = Object.keys(en.difficulty) as WordDifficulty[];
+
+export function isSupportedLanguage(value: unknown): value is string {
+  return typeof value === 'string' && Object.hasOwn(DICTIONARIES, value);
+}
+
+export function isWordCategory(value: unknown): value is WordCategory {
+  return typeof value === 'string' && (CATEGORY_NAMES as string[]).includes(value);
+}
+
+export function isWordDifficulty(value: unknown): value is WordDifficulty {
+  return typeof value === 'string' && (DIFFICULTIES as string[]).includes(value);
+}
+
+// Unknown languages fall back to English
+function getDictionary(language: string): WordDictionary {
+  return DICTIONARIES[language] ?? en;
+}
 
 // Flatten all category words into a single array
-export const WORDS: string[] = Object.values(wordsData.categories).flat();
+export const WORDS: string[] = Object.values(en.categories).flat();
 
 // Export categories for potential future use
-export const WORD_CATEGORIES = wordsData.categories;
+export const WORD_CATEGORIES = en.categories;
 
 // Export difficulty levels
-export const WORD_DIFFICULTY = wordsData.difficulty;
+export const WORD_DIFFICULTY = en.difficulty;
+
+// Entries may list alternate accepted answers: "colour|color".
+// The first one is the word shown to the drawer and in results.
+const ANSWER_SEPARATOR = '|';
+
+// All accepted answers of an entry
+export function parseWordEntry(entry: string): string[] {
+  return entry.split(ANSWER_SEPARATOR).map(w => w.trim()).filter(w => w.length > 0);
+}
+
+// Word shown for an entry
+export function displayWord(entry: string): string {
+  return parseWordEntry(entry)[0] || entry.trim();
+}
+
+// Per language: display word -> accepted answers, for entries with alternates
+const DICTIONARY_ANSWERS = new Map<string, Map<string, string[]>>(
+  Object.entries(DICTIONARIES).map(([language, dictionary]) => [
+    language,
+    new Map(
+      [...Object.values(dictionary.categories).flat(), ...Object.values(dictionary.difficulty).flat()]
+        .filter(entry => entry.includes(ANSWER_SEPARATOR))
+        .map(entry => [displayWord(entry), parseWordEntry(entry)])
+    ),
+  ])
+);
+
+// Accepted answers for a chosen word, from the room's custom words or the dictionary
+export function getAcceptedAnswers(word: string, customWords: string[] = [], language = DEFAULT_LANGUAGE): string[] {
+  const custom = customWords.find(entry => displayWord(entry) === word);
+  if (custom) return parseWordEntry(custom);
+  return DICTIONARY_ANSWERS.get(language)?.get(word) ?? [word];
+}
+
+// Difficulty of entries missing from the difficulty lists, following the
+// length guidelines in data/README.md
+function difficultyByLength(entry: string): WordDifficulty {
+  const length = [...displayWord(entry).replace(/[^\p{L}\p{N}]/gu, '')].length;
+  if (length <= 5) return 'easy';
+  if (length <= 10) return 'medium';
+  return 'hard';
+}
+
+interface CategoryIndex {
+  categoryOf: Map<string, WordCategory>;                          // entry -> first category listing it
+  pools: Record<WordCategory, Record<WordDifficulty, string[]>>;  // category words by difficulty
+  all: Record<WordDifficulty, string[]>;                          // every entry by difficulty
+}
+
+function buildCategoryIndex(dictionary: WordDictionary): CategoryIndex {
+  const listed = new Map<string, WordDifficulty>();
+  for (const difficulty of DIFFICULTIES) {
+    for (const entry of dictionary.difficulty[difficulty]) listed.set(entry, difficulty);
+  }
+
+  const categoryOf = new Map<string, WordCategory>();
+  const pools = {} as CategoryIndex['pools'];
+  for (const category of CATEGORY_NAMES) {
+    pools[category] = { easy: [], medium: [], hard: [] };
+    for (const entry of dictionary.categories[category]) {
+      if (!categoryOf.has(entry)) categoryOf.set(entry, category);
+      pools[category][listed.get(entry) ?? difficultyByLength(entry)].push(entry);
+    }
+  }
+
+  // The difficulty lists plus category words rated like above, so a locale
+  // with short difficulty lists still offers all of its words
+  const all = {} as CategoryIndex['all'];
+  for (const difficulty of DIFFICULTIES) {
+    all[difficulty] = [...new Set([
+      ...dictionary.difficulty[difficulty],
+      ...CATEGORY_NAMES.flatMap(category => pools[category][difficulty]),
+    ])];
+  }
+  return { categoryOf, pools, all };
+}
+
+const CATEGORY_INDEX = new Map<string, CategoryIndex>(
+  Object.entries(DICTIONARIES).map(([language, dictionary]) => [language, buildCategoryIndex(dictionary)])
+);
+
+export interface WordPick {
+  entry: string;                     // dictionary entry, alternates included
+  category: WordCategory | null;     // null for entries only in a difficulty list
+}
+
+// `exclude` holds display words
+function randomUnused(picks: WordPick[], exclude: Set<string>): WordPick | undefined {
+  const unused = picks.filter(pick => !exclude.has(displayWord(pick.entry)));
+  return unused[Math.floor(Math.random() * unused.length)];
+}
+
+/**
+ * Random dictionary entry of a difficulty whose display word is not in
+ * `exclude`, from the difficulty lists and the category words rated by
+ * length. With categories given, only their words are used, and when
+ * they have no such word of that difficulty any of their words will do.
+ * Undefined when the pool is used up; the caller decides how to relax.
+ */
+export function pickWord(
+  difficulty: WordDifficulty,
+  categories: WordCategory[] = [],
+  language = DEFAULT_LANGUAGE,
+  exclude: Set<string> = new Set()
+): WordPick | undefined {
+  const index = CATEGORY_INDEX.get(language) ?? CATEGORY_INDEX.get(DEFAULT_LANGUAGE)!;
+
+  const fromCategories = (difficulties: WordDifficulty[]) => categories.flatMap(category =>
+    difficulties.flatMap(d => index.pools[category][d]).map(entry => ({ entry, category }))
+  );
+
+  if (categories.length > 0) {
+    return randomUnused(fromCategories([difficulty]), exclude) ?? randomUnused(fromCategories(DIFFICULTIES), exclude);
+  }
+
+  const list = index.all[difficulty].map(entry => ({ entry, category: index.categoryOf.get(entry) ?? null }));
+  return randomUnused(list, exclude);
+}
 
 // Helper function to get words by category
-export function getWordsByCategory(category: keyof typeof wordsData.categories): string[] {
-  return wordsData.categories[category] || [];
+export function getWordsByCategory(category: WordCategory, language = DEFAULT_LANGUAGE): string[] {
+  return getDictionary(language).categories[category] || [];
 }
 
 // Helper function to get words by difficulty
-export function getWordsByDifficulty(difficulty: 'easy' | 'medium' | 'hard'): string[] {
-  return wordsData.difficulty[difficulty] || [];
+export function getWordsByDifficulty(difficulty: WordDifficulty, language = DEFAULT_LANGUAGE): string[] {
+  return getDictionary(language).difficulty[difficulty] || [];
 }
 
 // Helper function to get random word from specific category
-export function getRandomWordFromCategory(category: keyof typeof wordsData.categories): string {
-  const words = getWordsByCategory(category);
+export function getRandomWordFromCategory(category: WordCategory, language = DEFAULT_LANGUAGE): string {
+  const words = getWordsByCategory(category, language);
   return words[Math.floor(Math.random() * words.length)] || 'default';
 }
 
 // Helper function to get random word by difficulty
-export function getRandomWordByDifficulty(difficulty: 'easy' | 'medium' | 'hard'): string {
-  const words = getWordsByDifficulty(difficulty);
+export function getRandomWordByDifficulty(difficulty: WordDifficulty, language = DEFAULT_LANGUAGE): string {
+  const words = getWordsByDifficulty(difficulty, language);
   return words[Math.floor(Math.random() * words.length)] || 'default';
-}
\ No newline at end of file
+}
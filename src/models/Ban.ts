@@ -0,0 +1,32 @@
+// src/models/Ban.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Server-wide ban of a session or an IP address, applied by an admin.
+ * Room bans from kicks live on the room (`bannedSessionIds`).
+ */
+export interface IBan extends Document {
+  sessionId?: string;
+  ip?: string;
+  reason: string;
+  reportId?: string;                 // report that led to the ban
+  expiresAt?: Date;                  // permanent when unset
+  createdAt: Date;
+}
+
+const BanSchema = new Schema<IBan>(
+  {
+    sessionId: { type: String },
+    ip: { type: String },
+    reason: { type: String, default: '' },
+    reportId: { type: String },
+    expiresAt: { type: Date, expires: 0 },
+    createdAt: { type: Date, default: Date.now },
+  },
+  { timestamps: false }
+);
+
+BanSchema.index({ sessionId: 1 }, { sparse: true });
+BanSchema.index({ ip: 1 }, { sparse: true });
+
+export const Ban = mongoose.model<IBan>('Ban', BanSchema);
@@ -0,0 +1,56 @@
+// src/models/DrawingRecord.ts
+import mongoose, { Document, Schema } from 'mongoose';
+import type { Stroke } from './Room.js';
+
+export type DrawingEventType = 'draw' | 'strokes' | 'clear' | 'undo' | 'redo';
+
+export interface DrawingEvent {
+  t: number;               // ms since the drawing phase started (server clock)
+  type: DrawingEventType;
+  lines?: Stroke[];        // 'strokes': appended strokes; 'draw': full drawing (older records, after undo/redo)
+  targetId?: string | null; // 'undo'/'redo': gesture or clear affected, null if none
+}
+
+/**
+ * Every drawing event of one turn, for replays and timelapses
+ */
+export interface IDrawingRecord extends Document {
+  turnId: string;
+  roomId: string;
+  round: number;
+  drawerSessionId: string;
+  drawerName: string;
+  word: string;
+  startedAt: Date;
+  durationMs: number;
+  events: DrawingEvent[];
+  truncated: boolean;                // event cap was hit
+}
+
+const DrawingEventSchema = new Schema<DrawingEvent>(
+  {
+    t: { type: Number, required: true },
+    type: { type: String, required: true, enum: ['draw', 'strokes', 'clear', 'undo', 'redo'] },
+    lines: { type: Schema.Types.Mixed },
+    targetId: { type: String },
+  },
+  { _id: false }
+);
+
+const DrawingRecordSchema = new Schema<IDrawingRecord>(
+  {
+    turnId: { type: String, required: true, unique: true },
+    roomId: { type: String, required: true },
+    round: { type: Number, default: 1 },
+    drawerSessionId: { type: String, required: true },
+    drawerName: { type: String, default: '' },
+    word: { type: String, default: '' },
+    startedAt: { type: Date, required: true },
+    durationMs: { type: Number, default: 0 },
+    events: { type: [DrawingEventSchema], default: [] },
+    truncated: { type: Boolean, default: false },
+  },
+  { timestamps: false }
+);
+
+export const DrawingRecord = mongoose.model<IDrawingRecord>('DrawingRecord', DrawingRecordSchema);
@@ -0,0 +1,42 @@
+// src/models/LeaderboardEntry.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'alltime';
+
+/**
+ * One player's standing on one leaderboard period
+ * (e.g. daily 2024-12-09, weekly 2024-W50, alltime)
+ */
+export interface ILeaderboardEntry extends Document {
+  period: LeaderboardPeriod;
+  periodKey: string;                 // '2024-12-09', '2024-W50' or 'all'
+  playerId: string;
+  name: string;                      // last display name used
+
+  rating: number;                    // sum of normalized game points
+  gamesPlayed: number;
+  wins: number;
+
+  updatedAt: Date;
+}
+
+const LeaderboardEntrySchema = new Schema<ILeaderboardEntry>(
+  {
+    period: { type: String, required: true, enum: ['daily', 'weekly', 'alltime'] },
+    periodKey: { type: String, required: true },
+    playerId: { type: String, required: true },
+    name: { type: String, default: '' },
+
+    rating: { type: Number, default: 0 },
+    gamesPlayed: { type: Number, default: 0 },
+    wins: { type: Number, default: 0 },
+
+    updatedAt: { type: Date, default: Date.now },
+  },
+  { timestamps: false }
+);
+
+LeaderboardEntrySchema.index({ period: 1, periodKey: 1, playerId: 1 }, { unique: true });
+LeaderboardEntrySchema.index({ period: 1, periodKey: 1, rating: -1 });
+
+export const LeaderboardEntry = mongoose.model<ILeaderboardEntry>('LeaderboardEntry', LeaderboardEntrySchema);
@@ -0,0 +1,131 @@
+// src/models/Match.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface TurnGuessRecord {
+  sessionId: string;
+  playerId?: string;
+  name: string;
+  timeMs: number;          // from drawing start to the correct guess
+  points: number;
+}
+
+/**
+ * One finished turn, kept on the room while the game runs
+ * and copied into the match at game over
+ */
+export interface TurnRecord {
+  turnId?: string;         // links to the turn's DrawingRecord
+  round: number;
+  drawerSessionId: string;
+  drawerPlayerId?: string;
+  drawerName: string;
+  word: string;
+  guesses: TurnGuessRecord[];
+  hintsRevealed: number;
+  drawerBonus: number;
+  startedAt?: Date;        // drawing phase start
+  endedAt: Date;
+}
+
+export interface MatchPlayer {
+  sessionId: string;
+  playerId?: string;
+  name: string;
+  finalScore: number;
+  team?: number;
+}
+
+export interface MatchSettings {
+  maxRounds: number;
+  drawTime: number;
+  wordCount: number;
+  customWordProbability: number;
+  language: string;
+  teamMode: boolean;
+  teamCount: number;
+  teamStealing: boolean;
+}
+
+/**
+ * Finished game with settings, final scores and every turn
+ */
+export interface IMatch extends Document {
+  roomId: string;
+  settings: MatchSettings;
+  players: MatchPlayer[];
+  playerIds: string[];               // for "my recent matches" lookups
+  teams: { team: number; score: number }[];
+  turns: TurnRecord[];
+  startedAt?: Date;
+  endedAt: Date;
+}
+
+export const TurnGuessRecordSchema = new Schema<TurnGuessRecord>(
+  {
+    sessionId: { type: String, required: true },
+    playerId: { type: String },
+    name: { type: String, required: true },
+    timeMs: { type: Number, default: 0 },
+    points: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+export const TurnRecordSchema = new Schema<TurnRecord>(
+  {
+    turnId: { type: String },
+    round: { type: Number, required: true },
+    drawerSessionId: { type: String, required: true },
+    drawerPlayerId: { type: String },
+    drawerName: { type: String, required: true },
+    word: { type: String, default: '' },
+    guesses: { type: [TurnGuessRecordSchema], default: [] },
+    hintsRevealed: { type: Number, default: 0 },
+    drawerBonus: { type: Number, default: 0 },
+    startedAt: { type: Date },
+    endedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const MatchSchema = new Schema<IMatch>(
+  {
+    roomId: { type: String, required: true },
+    settings: {
+      maxRounds: { type: Number },
+      drawTime: { type: Number },
+      wordCount: { type: Number },
+      customWordProbability: { type: Number },
+      language: { type: String },
+      teamMode: { type: Boolean },
+      teamCount: { type: Number },
+      teamStealing: { type: Boolean },
+    },
+    players: [
+      {
+        sessionId: { type: String, required: true },
+        playerId: { type: String },
+        name: { type: String, required: true },
+        finalScore: { type: Number, default: 0 },
+        team: { type: Number },
+        _id: false,
+      },
+    ],
+    playerIds: { type: [String], default: [] },
+    teams: [
+      {
+        team: { type: Number },
+        score: { type: Number },
+        _id: false,
+      },
+    ],
+    turns: { type: [TurnRecordSchema], default: [] },
+    startedAt: { type: Date },
+    endedAt: { type: Date, default: Date.now },
+  },
+  { timestamps: false }
+);
+
+MatchSchema.index({ playerIds: 1, endedAt: -1 });
+
+export const Match = mongoose.model<IMatch>('Match', MatchSchema);
@@ -0,0 +1,47 @@
+// src/models/ModerationLog.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type ModerationLogType = 'filter' | 'mute' | 'kick' | 'report' | 'ban' | 'unban';
+export type ModerationActor = 'system' | 'host' | 'vote' | 'player' | 'admin';
+
+export const MODERATION_LOG_TYPES: ModerationLogType[] = ['filter', 'mute', 'kick', 'report', 'ban', 'unban'];
+
+/**
+ * Audit log entry: filter hits, mutes, kicks, reports and bans.
+ * Entries expire after 90 days.
+ */
+export interface IModerationLog extends Document {
+  type: ModerationLogType;
+  actor: ModerationActor;
+  roomId?: string;
+  sessionId?: string;                // player the entry is about
+  name?: string;
+  action?: string;                   // filter: mask, block or mute
+  severity?: string;                 // filter: mild, severe or extreme
+  text?: string;                     // filter: the original message
+  detail?: string;
+  reportId?: string;
+  createdAt: Date;
+}
+
+const ModerationLogSchema = new Schema<IModerationLog>(
+  {
+    type: { type: String, enum: MODERATION_LOG_TYPES, required: true },
+    actor: { type: String, enum: ['system', 'host', 'vote', 'player', 'admin'], default: 'system' },
+    roomId: { type: String },
+    sessionId: { type: String },
+    name: { type: String },
+    action: { type: String },
+    severity: { type: String },
+    text: { type: String },
+    detail: { type: String },
+    reportId: { type: String },
+    createdAt: { type: Date, default: Date.now, expires: 90 * 24 * 60 * 60 },
+  },
+  { timestamps: false }
+);
+
+ModerationLogSchema.index({ sessionId: 1, createdAt: -1 });
+ModerationLogSchema.index({ roomId: 1, createdAt: -1 });
+
+export const ModerationLog = mongoose.model<IModerationLog>('ModerationLog', ModerationLogSchema);
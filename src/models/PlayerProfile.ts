@@ -0,0 +1,62 @@
+// src/models/PlayerProfile.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface DrawnWordStats {
+  timesDrawn: number;      // turns this word was drawn by the player
+  timesGuessed: number;    // correct guesses across those turns
+}
+
+/**
+ * Lifetime statistics for a long-lived player id.
+ * Unlike rooms, profiles are never cleaned up.
+ */
+export interface IPlayerProfile extends Document {
+  playerId: string;                  // public: shown on leaderboards
+  tokenHash?: string;                // sha256 of the secret token that proves ownership of the id
+  name: string;                      // last display name used
+
+  gamesPlayed: number;
+  wins: number;
+  totalPoints: number;               // sum of final scores
+
+  correctGuesses: number;
+  totalGuessTimeMs: number;          // for average guess time
+
+  turnsDrawn: number;
+  wordsDrawn: Map<string, DrawnWordStats>;
+
+  createdAt: Date;
+  lastPlayedAt: Date;
+}
+
+const DrawnWordStatsSchema = new Schema<DrawnWordStats>(
+  {
+    timesDrawn: { type: Number, default: 0 },
+    timesGuessed: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const PlayerProfileSchema = new Schema<IPlayerProfile>(
+  {
+    playerId: { type: String, required: true, unique: true },
+    tokenHash: { type: String, select: false },
+    name: { type: String, default: '' },
+
+    gamesPlayed: { type: Number, default: 0 },
+    wins: { type: Number, default: 0 },
+    totalPoints: { type: Number, default: 0 },
+
+    correctGuesses: { type: Number, default: 0 },
+    totalGuessTimeMs: { type: Number, default: 0 },
+
+    turnsDrawn: { type: Number, default: 0 },
+    wordsDrawn: { type: Map, of: DrawnWordStatsSchema, default: new Map() },
+
+    createdAt: { type: Date, default: Date.now },
+    lastPlayedAt: { type: Date, default: Date.now },
+  },
+  { timestamps: false }
+);
+
+export const PlayerProfile = mongoose.model<IPlayerProfile>('PlayerProfile', PlayerProfileSchema);
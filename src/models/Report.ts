@@ -0,0 +1,62 @@
+// src/models/Report.ts
+import mongoose, { Document, Schema } from 'mongoose';
+import { ChatSchema, StrokeSchema, type ChatItem, type Stroke } from './Room.js';
+
+export type ReportReason = 'offensive_chat' | 'offensive_drawing' | 'cheating' | 'spam' | 'other';
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+export const REPORT_REASONS: ReportReason[] = ['offensive_chat', 'offensive_drawing', 'cheating', 'spam', 'other'];
+
+/**
+ * A player's report of another player, with the evidence captured
+ * at the time: the reported player's recent chat and the canvas
+ */
+export interface IReport extends Document {
+  roomId: string;
+  reporterSessionId: string;
+  reporterName: string;
+  reportedSessionId: string;
+  reportedPlayerId?: string;
+  reportedName: string;
+  reportedIp?: string;               // for IP bans
+  reason: ReportReason;
+  details: string;
+
+  chat: ChatItem[];                  // reported player's recent messages
+  drawing: Stroke[];                 // canvas snapshot
+  word?: string;                     // word being drawn at the time
+
+  status: ReportStatus;
+  resolutionNote?: string;
+  resolvedAt?: Date;
+  createdAt: Date;
+}
+
+const ReportSchema = new Schema<IReport>(
+  {
+    roomId: { type: String, required: true },
+    reporterSessionId: { type: String, required: true },
+    reporterName: { type: String, required: true },
+    reportedSessionId: { type: String, required: true },
+    reportedPlayerId: { type: String },
+    reportedName: { type: String, required: true },
+    reportedIp: { type: String },
+    reason: { type: String, enum: REPORT_REASONS, required: true },
+    details: { type: String, default: '' },
+
+    chat: { type: [ChatSchema], default: [] },
+    drawing: { type: [StrokeSchema], default: [] },
+    word: { type: String },
+
+    status: { type: String, enum: ['open', 'resolved', 'dismissed'], default: 'open' },
+    resolutionNote: { type: String },
+    resolvedAt: { type: Date },
+    createdAt: { type: Date, default: Date.now },
+  },
+  { timestamps: false }
+);
+
+ReportSchema.index({ status: 1, createdAt: -1 });
+ReportSchema.index({ reportedSessionId: 1, createdAt: -1 });
+
+export const Report = mongoose.model<IReport>('Report', ReportSchema);
@@ -1,22 +1,53 @@
 ﻿// src/models/Room.ts
 import mongoose, { Document, Schema } from 'mongoose';
+import { TurnRecordSchema, type TurnRecord } from './Match.js';
+import { WordPackWordSchema, type WordPackWord } from './WordPack.js';
+import type { ModerationLevel } from '../lib/profanityFilter.js';
+import type { WordCategory } from '../lib/words.js';
+import type { DifficultyPreset, DifficultyWeights } from '../lib/difficulty.js';
 
 export interface Player {
   id: string;              // Socket ID (changes on reconnect)
   sessionId: string;       // Persistent session ID (never changes)
+  playerId?: string;       // Long-lived player ID for profiles and stats
   name: string;
   score: number;
   isDrawer?: boolean;
   avatar?: number[];       // [colorIdx, eyeIdx, mouthIdx, accessoryIdx]
   isConnected: boolean;    // Connection status
   lastSeen: Date;          // Last activity timestamp
+  joinedAt: Date;          // When the player first joined (host succession order)
+  isSpectator?: boolean;   // Watches only: no turns, no guessing, not counted in maxPlayers
+  team?: number;           // Team index in team mode (0..teamCount-1)
 }
 
+export type ChatChannel = 'all' | 'spectators' | 'guessed';
+
 export interface ChatItem {
   id: string;
+  sessionId?: string;      // Sender's session (for reports)
   name: string;
   msg: string;
   ts: Date;
+  channel?: ChatChannel;   // Who can see the message (default: everyone)
+}
+
+export type StrokeTool = 'pen' | 'eraser' | 'fill';
+
+export interface Stroke {
+  id: string;              // gesture id shared by its segments (unit of undo)
+  tool: StrokeTool;
+  points: number[];        // flat [x0, y0, x1, y1, ...] in canvas pixels; a fill is its seed point
+  color: string;           // hex colour
+  width: number;           // brush diameter in pixels
+}
+
+export interface InviteToken {
+  token: string;
+  expiresAt: Date;
+  maxUses: number;
+  uses: number;
+  createdBy: string;       // sessionId of the host who issued it
 }
 
 /**
@@ -26,6 +57,8 @@ export interface IRoom extends Document {
   roomId: string;
   players: Player[];
   maxPlayers: number;
+  hostSessionId: string;             // sessionId of the current host
+  bannedSessionIds: string[];        // sessions kicked from this room
 
   // gameplay flags/state
   gameStarted: boolean;
@@ -44,24 +77,81 @@ export interface IRoom extends Document {
   wordCount: number;                 // number of word choices (3-5)
   customWords: string[];             // custom words list
   customWordProbability: number;     // 0-100 percentage
+  wordPackIds: string[];             // attached word packs
+  packWords: WordPackWord[];         // words of the attached packs, copied when attached
+  wordCategories: WordCategory[];    // dictionary categories to draw from (empty: all)
+  difficultyPreset: DifficultyPreset; // casual, classic, competitive, adaptive or custom
+  difficultyWeights: DifficultyWeights; // current easy/medium/hard percentages
+  recentGuessRates: number[];        // share of guessers who got each recent word (adaptive)
+  usedWords: string[];               // words offered or played in this room, oldest first
+  isPublic: boolean;                 // listed in the room browser / quick match
+  allowLateJoin: boolean;            // players may join while a game is running
+  language: string;                  // room language code (e.g. 'en')
+
+  // access control
+  passwordHash: string | undefined;  // scrypt "salt:hash", unset when open
+  inviteTokens: InviteToken[];       // expiring invites that bypass the password
+
+  // spectators
+  spectatorChatIsolated: boolean;    // spectator chat only reaches other spectators
+
+  // moderation
+  moderationLevel: ModerationLevel;  // chat/name strictness: relaxed, standard, strict
+
+  // team mode
+  teamMode: boolean;
+  teamCount: number;                 // number of teams (2-4)
+  teamStealing: boolean;             // other teams may guess the drawing team's word
 
   // round tracking
   roundPoints: Map<string, number>;  // sessionId -> points earned this round
+  guessTimes: Map<string, number>;   // sessionId -> ms from drawing start to correct guess
+  drawingStartedAt?: Date;           // when the current drawing phase began
+  currentTurnId?: string;            // id of the turn being drawn (replays)
+
+  // match history
+  gameStartedAt?: Date;
+  turnHistory: TurnRecord[];         // finished turns of the running game
   revealedLetters: number[];         // indices of revealed letters
 
   // canvas persistence
-  currentDrawing: any[];             // Current drawing data for reconnection
+  currentDrawing: Stroke[];          // Current drawing data for reconnection
+  canvasSeq: number;                 // sequence number of the last applied canvas op
 
   createdAt: Date;
   lastActivity: Date;                // Last activity in room (for cleanup)
 }
 
-const ChatSchema = new Schema<ChatItem>(
+export const ChatSchema = new Schema<ChatItem>(
   {
     id: { type: String, required: true },
+    sessionId: { type: String },
     name: { type: String, required: true },
     msg: { type: String, required: true },
     ts: { type: Date, required: true },
+    channel: { type: String, default: 'all' },
+  },
+  { _id: false }
+);
+
+export const StrokeSchema = new Schema<Stroke>(
+  {
+    id: { type: String },
+    tool: { type: String, enum: ['pen', 'eraser', 'fill'], default: 'pen' },
+    points: { type: [Number], default: [] },
+    color: { type: String, required: true },
+    width: { type: Number, default: 1 },
+  },
+  { _id: false }
+);
+
+const InviteTokenSchema = new Schema<InviteToken>(
+  {
+    token: { type: String, required: true },
+    expiresAt: { type: Date, required: true },
+    maxUses: { type: Number, required: true },
+    uses: { type: Number, default: 0 },
+    createdBy: { type: String, required: true },
   },
   { _id: false }
 );
@@ -73,15 +163,21 @@ const RoomSchema = new Schema<IRoom>(
       {
         id: { type: String, required: true },           // Socket ID
         sessionId: { type: String, required: true },    // Persistent session ID
+        playerId: { type: String },                     // Long-lived player ID
         name: { type: String, required: true },
         score: { type: Number, default: 0 },
         isDrawer: { type: Boolean, default: false },
         avatar: { type: [Number], default: [0, 0, 0, 0] },
         isConnected: { type: Boolean, default: true },
         lastSeen: { type: Date, default: Date.now },
+        joinedAt: { type: Date, default: Date.now },
+        isSpectator: { type: Boolean, default: false },
+        team: { type: Number },
       },
     ],
     maxPlayers: { type: Number, default: 8 },
+    hostSessionId: { type: String, default: '' },
+    bannedSessionIds: { type: [String], default: [] },
 
     gameStarted: { type: Boolean, default: false },
     currentWord: { type: String },               // optional/undefined allowed
@@ -99,13 +195,52 @@ const RoomSchema = new Schema<IRoom>(
     wordCount: { type: Number, default: 3 },
     customWords: { type: [String], default: [] },
     customWordProbability: { type: Number, default: 0 },
+    wordPackIds: { type: [String], default: [] },
+    packWords: { type: [WordPackWordSchema], default: [] },
+    wordCategories: { type: [String], default: [] },
+    difficultyPreset: {
+      type: String,
+      enum: ['casual', 'classic', 'competitive', 'adaptive', 'custom'],
+      default: 'classic',
+    },
+    difficultyWeights: {
+      easy: { type: Number, default: 20 },
+      medium: { type: Number, default: 40 },
+      hard: { type: Number, default: 40 },
+    },
+    recentGuessRates: { type: [Number], default: [] },
+    usedWords: { type: [String], default: [] },
+    isPublic: { type: Boolean, default: false },
+    allowLateJoin: { type: Boolean, default: true },
+    language: { type: String, default: 'en' },
+
+    // access control
+    passwordHash: { type: String },
+    inviteTokens: { type: [InviteTokenSchema], default: [] },
+
+    // spectators
+    spectatorChatIsolated: { type: Boolean, default: false },
+    moderationLevel: { type: String, enum: ['relaxed', 'standard', 'strict'], default: 'standard' },
+
+    // team mode
+    teamMode: { type: Boolean, default: false },
+    teamCount: { type: Number, default: 2 },
+    teamStealing: { type: Boolean, default: false },
 
     // round tracking
     roundPoints: { type: Map, of: Number, default: new Map() },
+    guessTimes: { type: Map, of: Number, default: new Map() },
+    drawingStartedAt: { type: Date },
+    currentTurnId: { type: String },
+
+    // match history
+    gameStartedAt: { type: Date },
+    turnHistory: { type: [TurnRecordSchema], default: [] },
     revealedLetters: { type: [Number], default: [] },
 
     // canvas persistence
-    currentDrawing: { type: Schema.Types.Mixed, default: [] },
+    currentDrawing: { type: [StrokeSchema], default: [] },
+    canvasSeq: { type: Number, default: 0 },
 
     createdAt: { type: Date, default: Date.now },
     lastActivity: { type: Date, default: Date.now },
@@ -0,0 +1,44 @@
+// src/models/WordPack.ts
+import mongoose, { Document, Schema } from 'mongoose';
+import type { WordDifficulty } from '../lib/words.js';
+
+export interface WordPackWord {
+  word: string;                      // entry, may list alternates: "colour|color"
+  difficulty?: WordDifficulty;       // optional tag, preferred when that difficulty is rolled
+}
+
+/**
+ * Player-made custom word list that outlives rooms. Any room with the
+ * same language can attach it by id.
+ */
+export interface IWordPack extends Document {
+  name: string;
+  ownerSessionId: string;
+  language: string;
+  words: WordPackWord[];
+  createdAt: Date;
+}
+
+export const WordPackWordSchema = new Schema<WordPackWord>(
+  {
+    word: { type: String, required: true },
+    difficulty: { type: String, enum: ['easy', 'medium', 'hard'] },
+  },
+  { _id: false }
+);
+
+const WordPackSchema = new Schema<IWordPack>(
+  {
+    name: { type: String, required: true },
+    ownerSessionId: { type: String, required: true },
+    language: { type: String, default: 'en' },
+    words: { type: [WordPackWordSchema], default: [] },
+    createdAt: { type: Date, default: Date.now },
+  },
+  { timestamps: false }
+);
+
+WordPackSchema.index({ language: 1, createdAt: -1 });
+WordPackSchema.index({ ownerSessionId: 1, createdAt: -1 });
+
+export const WordPack = mongoose.model<IWordPack>('WordPack', WordPackSchema);
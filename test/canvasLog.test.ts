@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { finalStrokesFromEvents } from '../src/lib/canvasLog.js';
+
+const stroke = (id: string) => ({ id, tool: 'pen', points: [10, 10, 20, 20], color: '#000000', width: 4 });
+
+test('undo and redo are rebuilt from their targets', () => {
+  const strokes = finalStrokesFromEvents([
+    { type: 'strokes', lines: [stroke('a')] },
+    { type: 'strokes', lines: [stroke('b')] },
+    { type: 'undo', targetId: 'b' },
+    { type: 'undo', targetId: 'a' },
+    { type: 'redo', targetId: 'a' },
+  ]);
+  assert.deepEqual(strokes.map(s => s.id), ['a']);
+});
+
+test('undoing a clear restores the wiped canvas', () => {
+  const strokes = finalStrokesFromEvents([
+    { type: 'strokes', lines: [stroke('a'), stroke('b')] },
+    { type: 'clear' },
+    { type: 'undo', targetId: 'clear_3' },
+  ]);
+  assert.deepEqual(strokes.map(s => s.id), ['a', 'b']);
+});
+
+test('undo with nothing to undo changes nothing', () => {
+  const strokes = finalStrokesFromEvents([
+    { type: 'undo', targetId: null },
+    { type: 'strokes', lines: [stroke('a')] },
+  ]);
+  assert.deepEqual(strokes.map(s => s.id), ['a']);
+});
+
+test('older records with full-drawing events still replay', () => {
+  const strokes = finalStrokesFromEvents([
+    { type: 'strokes', lines: [stroke('a'), stroke('b')] },
+    { type: 'draw', lines: [stroke('a')] },
+    { type: 'strokes', lines: [stroke('c')] },
+  ]);
+  assert.deepEqual(strokes.map(s => s.id), ['a', 'c']);
+});
@@ -0,0 +1,17 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { insertLateJoiner } from '../src/lib/drawOrder.js';
+
+test('a late joiner is seated just before the first player drawing', () => {
+  const players = ['ann', 'bob', 'cid'];
+  const drawerIndex = insertLateJoiner(players, 0, 'dan');
+  assert.deepEqual(players, ['dan', 'ann', 'bob', 'cid']);
+  assert.equal(players[drawerIndex], 'ann');
+});
+
+test('a late joiner is seated just before a later drawer', () => {
+  const players = ['ann', 'bob', 'cid'];
+  const drawerIndex = insertLateJoiner(players, 2, 'dan');
+  assert.deepEqual(players, ['ann', 'bob', 'dan', 'cid']);
+  assert.equal(players[drawerIndex], 'cid');
+});
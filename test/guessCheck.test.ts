@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isCloseGuess, isCorrectGuess, revealsWord } from '../src/lib/guessCheck.js';
+
+test('regular plurals of an answer are correct', () => {
+  assert.ok(isCorrectGuess('cookies', ['cookie']));
+  assert.ok(isCorrectGuess('houses', ['house']));
+  assert.ok(isCorrectGuess('zombies', ['zombie']));
+  assert.ok(isCorrectGuess('cats', ['cat']));
+  assert.ok(isCorrectGuess('boxes', ['box']));
+  assert.ok(isCorrectGuess('berries', ['berry']));
+  assert.ok(isCorrectGuess('Ice-Creams', ['ice cream']));
+  assert.ok(isCorrectGuess('icecreams', ['ice cream']));
+});
+
+test('answers ending in s match as typed', () => {
+  assert.ok(isCorrectGuess('glass', ['glass']));
+  assert.ok(isCorrectGuess('bus', ['bus']));
+  assert.ok(isCorrectGuess('news', ['news']));
+  assert.ok(isCorrectGuess('pyjamas', ['pajamas']));
+});
+
+test('a singular is not a plural answer', () => {
+  assert.ok(!isCorrectGuess('new', ['news']));
+  assert.ok(!isCorrectGuess('glas', ['glass']));
+});
+
+test('spelling variants and plurals combine', () => {
+  assert.ok(isCorrectGuess('colours', ['color']));
+  assert.ok(isCorrectGuess('Colour', ['colour']));
+});
+
+test('plural rules are English only', () => {
+  assert.ok(!isCorrectGuess('gatos', ['gato'], 'es'));
+  assert.ok(isCorrectGuess('Straße', ['strasse'], 'de'));
+});
+
+test('chat that spells out the answer is a leak', () => {
+  assert.ok(revealsWord('it is a cat', ['cat']));
+  assert.ok(revealsWord('two CATS!', ['cat']));
+  assert.ok(revealsWord('c a t', ['cat']));
+  assert.ok(revealsWord('I love ice-creams', ['ice cream']));
+  assert.ok(revealsWord('icecream?', ['ice cream']));
+});
+
+test('near spellings of longer answers are leaks', () => {
+  assert.ok(revealsWord('its an elefant', ['elephant']));
+  assert.ok(revealsWord('giraff', ['giraffe']));
+  assert.ok(revealsWord('maybe a hamburgr?', ['hamburger']));
+});
+
+test('ordinary words close to the answer are not leaks', () => {
+  assert.ok(!revealsWord('look at it', ['cat']));
+  assert.ok(!revealsWord('i am lost', ['ham']));
+  assert.ok(!revealsWord('can you draw faster', ['car']));
+  assert.ok(!revealsWord('nice cram session', ['ice cream']));
+});
+
+test('near misses are still close guesses', () => {
+  assert.ok(isCloseGuess('cot', 'cat'));
+  assert.ok(isCloseGuess('elefant', 'elephant'));
+  assert.ok(!isCloseGuess('cat', 'cat'));
+});
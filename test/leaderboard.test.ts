@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeLeaderboardPoints } from '../src/lib/leaderboard.js';
+
+const player = (playerId: string, score: number) => ({ sessionId: `s-${playerId}`, playerId, name: playerId, score });
+
+test('placement points go to the players ahead', () => {
+  const results = computeLeaderboardPoints([player('a', 300), player('b', 100), player('c', 0)], 3);
+  assert.equal(results.get('a')?.won, true);
+  assert.ok(results.get('a')!.points > results.get('b')!.points);
+  assert.equal(results.get('c')?.points, 0);
+});
+
+test('a game where nobody scored awards nothing', () => {
+  const players = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => player(id, 0));
+  assert.equal(computeLeaderboardPoints(players, 6).size, 0);
+});
+
+test('a game where everyone tied awards nothing', () => {
+  assert.equal(computeLeaderboardPoints([player('a', 200), player('b', 200)], 4).size, 0);
+});
+
+test('short games award nothing', () => {
+  const players = [player('a', 300), player('b', 100), player('c', 50), player('d', 0)];
+  assert.equal(computeLeaderboardPoints(players, 2).size, 0);
+  assert.equal(computeLeaderboardPoints(players, 3).size, 0);
+  assert.equal(computeLeaderboardPoints(players, 4).size, 4);
+});
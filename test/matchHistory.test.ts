@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { toMatchDetail } from '../src/lib/matchHistory.js';
+
+const match = {
+  _id: 'match-1',
+  roomId: 'ABC123',
+  settings: {
+    maxRounds: 3, drawTime: 60, wordCount: 3, customWordProbability: 0,
+    language: 'en', teamMode: false, teamCount: 2, teamStealing: false,
+  },
+  players: [
+    { sessionId: 'secret-session-a', playerId: 'player-a', name: 'Ann', finalScore: 120 },
+    { sessionId: 'secret-session-b', name: 'Bob', finalScore: 80 },
+  ],
+  teams: [],
+  turns: [{
+    round: 1,
+    drawerSessionId: 'secret-session-a',
+    drawerPlayerId: 'player-a',
+    drawerName: 'Ann',
+    word: 'cat',
+    guesses: [{ sessionId: 'secret-session-b', name: 'Bob', timeMs: 4000, points: 80 }],
+    hintsRevealed: 1,
+    drawerBonus: 40,
+    endedAt: new Date(),
+  }],
+  endedAt: new Date(),
+};
+
+test('match detail never contains session ids', () => {
+  const json = JSON.stringify(toMatchDetail(match));
+  assert.ok(!json.includes('secret-session'));
+  assert.ok(!/sessionId/i.test(json));
+});
+
+test('match detail keeps names, scores and turns', () => {
+  const detail = toMatchDetail(match);
+  assert.equal(detail.matchId, 'match-1');
+  assert.deepEqual(detail.players.map(p => p.name), ['Ann', 'Bob']);
+  assert.equal(detail.turns[0]?.word, 'cat');
+  assert.equal(detail.turns[0]?.guesses[0]?.points, 80);
+});
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { moderateMessage, moderateName } from '../src/lib/profanityFilter.js';
+
+test('mild English terms only count in English rooms', () => {
+  assert.equal(moderateMessage('die Katze ist hell', 'strict', 'de').action, 'allow');
+  assert.equal(moderateMessage('la Katze ist hell', 'strict', 'fr').action, 'allow');
+  assert.notEqual(moderateMessage('die Katze ist hell', 'strict', 'en').action, 'allow');
+});
+
+test('English swear words are checked in every language', () => {
+  for (const language of ['en', 'es', 'fr', 'de', 'ru']) {
+    assert.notEqual(moderateMessage('what the fuck', 'standard', language).action, 'allow', language);
+  }
+});
+
+test('each language adds its own terms', () => {
+  assert.notEqual(moderateMessage('so eine Scheiße', 'standard', 'de').action, 'allow');
+  assert.notEqual(moderateMessage('quelle merde', 'standard', 'fr').action, 'allow');
+  assert.equal(moderateMessage('quelle merde', 'standard', 'en').action, 'allow');
+});
+
+test('language allowlists cover common words that collide with English terms', () => {
+  assert.equal(moderateName('Dicke Berta', 'strict', 'de'), 'Dicke Berta');
+  assert.equal(moderateMessage('fromage râpé', 'strict', 'fr').action, 'allow');
+  assert.equal(moderateName('Dick', 'strict', 'en'), null);
+});
+
+test('unknown languages fall back to the English terms', () => {
+  assert.notEqual(moderateMessage('go to hell', 'strict', 'xx').action, 'allow');
+});
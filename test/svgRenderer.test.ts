@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { renderStrokesToSvg } from '../src/lib/svgRenderer.js';
+
+const fill = (x: number, y: number) => ({ id: 'f', tool: 'fill' as const, points: [x, y], color: '#00ff00', width: 1 });
+const countFills = (svg: string) => svg.split('fill="#00ff00"').length - 1;
+
+test('fills are flood-filled around earlier strokes', () => {
+  const wall = { id: 'w', tool: 'pen' as const, points: [400, 0, 400, 600], color: '#000000', width: 10 };
+  const svg = renderStrokesToSvg([wall, fill(100, 300)]);
+  assert.equal(countFills(svg), 1);
+  assert.ok(!svg.includes('M500 '), 'the fill stops at the wall');
+});
+
+test('fills past the raster budget are left out', () => {
+  const points: number[] = [];
+  for (let i = 0; i < 2500; i++) points.push(i % 2 ? 800 : 0, (i * 7) % 600);
+  const zigzag = { id: 'z', tool: 'pen' as const, points, color: '#ff0000', width: 100 };
+
+  const started = Date.now();
+  const svg = renderStrokesToSvg([fill(1, 1), zigzag, fill(400, 300)]);
+  assert.ok(Date.now() - started < 1000);
+  assert.equal(countFills(svg), 1);
+});
@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { pickWord, displayWord, getWordsByDifficulty } from '../src/lib/words.js';
+
+test('choices without categories use every category word of the locale', () => {
+  for (const language of ['es', 'fr', 'de', 'ru']) {
+    const listed = getWordsByDifficulty('medium', language).map(displayWord);
+    const exclude = new Set(listed);
+    const pick = pickWord('medium', [], language, exclude);
+    assert.ok(pick, `${language} has medium words beyond its difficulty list`);
+    assert.ok(pick.category, 'the word comes from a category');
+  }
+});
+
+test('a locale offers far more than its difficulty lists before running out', () => {
+  const exclude = new Set<string>();
+  for (let i = 0; i < 100; i++) {
+    const pick = pickWord(i % 2 ? 'easy' : 'medium', [], 'de', exclude)
+      ?? pickWord('hard', [], 'de', exclude);
+    assert.ok(pick, `ran out after ${i} words`);
+    exclude.add(displayWord(pick.entry));
+  }
+});